@@ -0,0 +1,577 @@
+// Cache administration routes (require ADMIN_TOKEN)
+
+import { Env, CachedEntry } from "./types";
+import { PromptCache, EntryFilter, isValidThreshold } from "./cache";
+import {
+  ApiKeyRecord,
+  ApiKeyStore,
+  LIMITS_REQUIRE_REDIS,
+  getMonthlyUsage,
+  hasLimits,
+  isValidTenant,
+} from "./auth";
+import { hasAtomicCounters } from "./meta-store";
+import { Metrics } from "./metrics";
+import { getModelRegistry } from "./models";
+import { getReembedState, runReembed, startReembed } from "./reembed";
+import { getReencryptState, runReencrypt, startReencrypt } from "./reencrypt";
+import { createCalibrationStore } from "./calibration";
+import {
+  exportEntries,
+  getImportState,
+  runImport,
+  startImport,
+} from "./import-export";
+
+/**
+ * Check the request's bearer token against `expectedToken` in constant time
+ */
+export function isAuthorized(request: Request, expectedToken: string): boolean {
+  const header = request.headers.get("Authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(expectedToken);
+  const actual = encoder.encode(token);
+  return (
+    actual.byteLength === expected.byteLength &&
+    crypto.subtle.timingSafeEqual(actual, expected)
+  );
+}
+
+/**
+ * Entry without its embeddings, which are large and not useful to read
+ */
+function toEntrySummary(id: string, entry: CachedEntry) {
+  const { embedding, negatives, ...rest } = entry;
+  return {
+    id,
+    ...rest,
+    embeddingDimensions: embedding.length,
+    negativePrompts: negatives?.map((n) => n.prompt),
+  };
+}
+
+/**
+ * Read list/delete filters from query parameters or a JSON body, throwing
+ * BadRequestError for a max_age that is not a non-negative number
+ */
+function parseFilter(source: {
+  model?: string | null;
+  namespace?: string | null;
+  max_age?: unknown;
+  q?: string | null;
+}): EntryFilter {
+  return {
+    model: source.model || undefined,
+    namespace: source.namespace || undefined,
+    maxAgeSeconds: parseMaxAge(source.max_age),
+    promptContains: source.q || undefined,
+  };
+}
+
+function parseMaxAge(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const seconds =
+    typeof value === "number" ||
+    (typeof value === "string" && value.trim() !== "")
+      ? Number(value)
+      : NaN;
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new BadRequestError("max_age must be a non-negative number");
+  }
+  return seconds;
+}
+
+/**
+ * Optional positive integer limit from a request body
+ */
+function parseLimit(value: unknown): number | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  return Number.isInteger(value) && (value as number) > 0
+    ? (value as number)
+    : null;
+}
+
+/**
+ * A malformed request, e.g. a body that is not a JSON object, answered
+ * with 400 rather than 500
+ */
+class BadRequestError extends Error {
+  constructor(message: string = "Request body must be a JSON object") {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * Parse a JSON object request body, throwing BadRequestError for anything
+ * else
+ */
+async function readJsonBody<T extends object>(request: Request): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new BadRequestError();
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new BadRequestError();
+  }
+  return body as T;
+}
+
+/**
+ * Handle a request under /admin/
+ */
+export async function handleAdminRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  if (!env.ADMIN_TOKEN) {
+    return Response.json(
+      { error: "Admin API disabled. Set ADMIN_TOKEN to enable it." },
+      { status: 403, headers: corsHeaders }
+    );
+  }
+
+  if (!isAuthorized(request, env.ADMIN_TOKEN)) {
+    return Response.json(
+      { error: "Unauthorized" },
+      {
+        status: 401,
+        headers: { ...corsHeaders, "WWW-Authenticate": "Bearer" },
+      }
+    );
+  }
+
+  try {
+    const cache = new PromptCache(env);
+
+    // List entries: GET /admin/entries?model=&namespace=&max_age=&q=&cursor=&limit=
+    if (url.pathname === "/admin/entries" && request.method === "GET") {
+      const params = url.searchParams;
+      const limit = Math.min(
+        Math.max(parseInt(params.get("limit") || "50") || 50, 1),
+        500
+      );
+      const page = await cache.listEntries(
+        parseFilter({
+          model: params.get("model"),
+          namespace: params.get("namespace"),
+          max_age: params.get("max_age"),
+          q: params.get("q"),
+        }),
+        params.get("cursor") || undefined,
+        limit
+      );
+
+      return Response.json(
+        {
+          entries: page.entries.map((e) => toEntrySummary(e.id, e.data)),
+          cursor: page.cursor ?? null,
+        },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Statistics with the per-namespace breakdown: GET /admin/stats?days=
+    if (url.pathname === "/admin/stats" && request.method === "GET") {
+      const days = Math.min(
+        Math.max(parseInt(url.searchParams.get("days") || "7") || 7, 1),
+        90
+      );
+      const { size } = await cache.getStats();
+      const counters = await new Metrics(env).getStats(days);
+      return Response.json(
+        { cacheSize: size, ...counters },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Model registry with deployment details: GET /admin/models
+    if (url.pathname === "/admin/models" && request.method === "GET") {
+      return Response.json(
+        { models: getModelRegistry(env).list() },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Purge everything: DELETE /admin/entries?confirm=true
+    if (url.pathname === "/admin/entries" && request.method === "DELETE") {
+      if (url.searchParams.get("confirm") !== "true") {
+        return Response.json(
+          { error: "Purging the cache requires ?confirm=true" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      const deleted = await cache.purge();
+      return Response.json({ deleted }, { headers: corsHeaders });
+    }
+
+    // Semantic delete: POST /admin/entries/delete-similar
+    if (
+      url.pathname === "/admin/entries/delete-similar" &&
+      request.method === "POST"
+    ) {
+      const body: {
+        prompt?: string;
+        threshold?: number;
+        model?: string;
+        namespace?: string;
+        max_age?: unknown;
+      } = await readJsonBody(request);
+
+      if (!body.prompt || typeof body.threshold !== "number") {
+        return Response.json(
+          { error: "Missing required fields: prompt, threshold" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      // A threshold of 0 would match, and delete, every entry
+      if (!isValidThreshold(body.threshold) || body.threshold <= 0) {
+        return Response.json(
+          { error: "threshold must be greater than 0 and at most 1" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      const deleted = await cache.deleteSimilar(
+        body.prompt,
+        body.threshold,
+        parseFilter(body)
+      );
+      return Response.json(
+        { deleted: deleted.length, ids: deleted },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Single entry routes: /admin/entries/:id and /admin/entries/:id/pin
+    const match = url.pathname.match(/^\/admin\/entries\/([^/]+)(\/pin)?$/);
+    if (match) {
+      const id = decodeURIComponent(match[1]);
+      const isPin = match[2] !== undefined;
+
+      if (isPin && (request.method === "PUT" || request.method === "DELETE")) {
+        const entry = await cache.setPinned(id, request.method === "PUT");
+        if (!entry) {
+          return Response.json(
+            { error: "Entry not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(toEntrySummary(id, entry), {
+          headers: corsHeaders,
+        });
+      }
+
+      if (!isPin && request.method === "GET") {
+        const entry = await cache.getEntry(id);
+        if (!entry) {
+          return Response.json(
+            { error: "Entry not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(toEntrySummary(id, entry), {
+          headers: corsHeaders,
+        });
+      }
+
+      if (!isPin && request.method === "DELETE") {
+        await cache.deleteEntry(id);
+        return Response.json(
+          { deleted: 1, ids: [id] },
+          { headers: corsHeaders }
+        );
+      }
+    }
+
+    // Bulk import: POST /admin/import with a JSONL body, one entry per
+    // line. A first batch is written now; the cron trigger writes the rest.
+    if (url.pathname === "/admin/import" && request.method === "POST") {
+      if (!request.body) {
+        return Response.json(
+          { error: "Missing JSONL body" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      if (!(await startImport(request.body, env))) {
+        return Response.json(
+          { error: "Another import is still running" },
+          { status: 409, headers: corsHeaders }
+        );
+      }
+      const state = (await runImport(env))!;
+      return Response.json(state, {
+        status: state.finishedAt !== undefined ? 200 : 202,
+        headers: corsHeaders,
+      });
+    }
+
+    // Import progress: GET /admin/import
+    if (url.pathname === "/admin/import" && request.method === "GET") {
+      const state = await getImportState(env);
+      if (!state) {
+        return Response.json(
+          { error: "No import has been started" },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+      return Response.json(state, { headers: corsHeaders });
+    }
+
+    // Stream entries as JSONL: GET /admin/export?model=&namespace=&max_age=&q=
+    if (url.pathname === "/admin/export" && request.method === "GET") {
+      const params = url.searchParams;
+      const filter = parseFilter({
+        model: params.get("model"),
+        namespace: params.get("namespace"),
+        max_age: params.get("max_age"),
+        q: params.get("q"),
+      });
+      return new Response(exportEntries(env, filter), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": 'attachment; filename="prompt-cache.jsonl"',
+        },
+      });
+    }
+
+    // Start migrating entries to EMBEDDING_MODEL: POST /admin/reembed.
+    // A first batch runs now; the cron trigger continues in the background.
+    if (url.pathname === "/admin/reembed" && request.method === "POST") {
+      await startReembed(env);
+      const state = await runReembed(env, 10_000);
+      return Response.json(state, { status: 202, headers: corsHeaders });
+    }
+
+    // Migration progress: GET /admin/reembed
+    if (url.pathname === "/admin/reembed" && request.method === "GET") {
+      const state = await getReembedState(env);
+      if (!state) {
+        return Response.json(
+          { error: "No re-embedding has been started" },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+      return Response.json(state, { headers: corsHeaders });
+    }
+
+    // Start re-encrypting entries with CACHE_ENCRYPTION_KEY_ID: POST
+    // /admin/reencrypt. A first batch runs now; the cron trigger continues.
+    if (url.pathname === "/admin/reencrypt" && request.method === "POST") {
+      if (!(await startReencrypt(env))) {
+        return Response.json(
+          { error: "Encryption requires CACHE_ENCRYPTION_KEYS" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      const state = await runReencrypt(env, 10_000);
+      return Response.json(state, { status: 202, headers: corsHeaders });
+    }
+
+    // Rotation progress: GET /admin/reencrypt
+    if (url.pathname === "/admin/reencrypt" && request.method === "GET") {
+      const state = await getReencryptState(env);
+      if (!state) {
+        return Response.json(
+          { error: "No re-encryption has been started" },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+      return Response.json(state, { headers: corsHeaders });
+    }
+
+    const calibration = createCalibrationStore(env);
+
+    // Calibration samples: GET /admin/calibration/samples?model=&namespace=&labeled=&cursor=&limit=
+    if (
+      url.pathname === "/admin/calibration/samples" &&
+      request.method === "GET"
+    ) {
+      const labeled = url.searchParams.get("labeled");
+      const limit = Math.min(
+        Math.max(parseInt(url.searchParams.get("limit") || "100") || 100, 1),
+        1000
+      );
+      const page = await calibration.list(
+        {
+          model: url.searchParams.get("model") || undefined,
+          namespace: url.searchParams.get("namespace") || undefined,
+          labeled: labeled === null ? undefined : labeled === "true",
+        },
+        url.searchParams.get("cursor") || undefined,
+        limit
+      );
+      return Response.json(
+        { samples: page.samples, cursor: page.cursor ?? null },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Label a sample: PUT /admin/calibration/samples/:id {"label": "match" | "mismatch"}
+    const sampleMatch = url.pathname.match(
+      /^\/admin\/calibration\/samples\/([^/]+)$/
+    );
+    if (sampleMatch && request.method === "PUT") {
+      const body: { label?: string } = await readJsonBody(request);
+      if (body.label !== "match" && body.label !== "mismatch") {
+        return Response.json(
+          { error: 'label must be "match" or "mismatch"' },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      const sample = await calibration.label(
+        decodeURIComponent(sampleMatch[1]),
+        body.label
+      );
+      if (!sample) {
+        return Response.json(
+          { error: "Sample not found" },
+          { status: 404, headers: corsHeaders }
+        );
+      }
+      return Response.json(sample, { headers: corsHeaders });
+    }
+
+    // Suggested threshold: GET /admin/calibration/suggest?target_fpr=&model=&namespace=
+    if (
+      url.pathname === "/admin/calibration/suggest" &&
+      request.method === "GET"
+    ) {
+      const target = Number(url.searchParams.get("target_fpr") ?? "0.05");
+      if (!(target >= 0 && target <= 1)) {
+        return Response.json(
+          { error: "target_fpr must be between 0 and 1" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      const suggestion = await calibration.suggestThreshold(target, {
+        model: url.searchParams.get("model") || undefined,
+        namespace: url.searchParams.get("namespace") || undefined,
+      });
+      return Response.json(suggestion, { headers: corsHeaders });
+    }
+
+    const keys = new ApiKeyStore(env.CACHE_STATS);
+
+    // Issue a client API key: POST /admin/keys
+    if (url.pathname === "/admin/keys" && request.method === "POST") {
+      const body: {
+        tenant?: unknown;
+        name?: string;
+        rate_limit_per_minute?: unknown;
+        monthly_request_quota?: unknown;
+        monthly_token_quota?: unknown;
+      } = await readJsonBody(request);
+
+      if (!isValidTenant(body.tenant)) {
+        return Response.json(
+          {
+            error:
+              "tenant is required: 1-64 letters, digits, hyphens or underscores",
+          },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      const rateLimitPerMinute = parseLimit(body.rate_limit_per_minute);
+      const monthlyRequestQuota = parseLimit(body.monthly_request_quota);
+      const monthlyTokenQuota = parseLimit(body.monthly_token_quota);
+      if (
+        rateLimitPerMinute === null ||
+        monthlyRequestQuota === null ||
+        monthlyTokenQuota === null
+      ) {
+        return Response.json(
+          { error: "Limits and quotas must be positive integers" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      const record: ApiKeyRecord = {
+        tenant: body.tenant,
+        name: body.name,
+        rateLimitPerMinute,
+        monthlyRequestQuota,
+        monthlyTokenQuota,
+        createdAt: Date.now(),
+      };
+      if (hasLimits(record) && !hasAtomicCounters(env)) {
+        return Response.json(
+          { error: LIMITS_REQUIRE_REDIS },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      // The plain key is only ever returned here
+      return Response.json(await keys.create(record), {
+        status: 201,
+        headers: corsHeaders,
+      });
+    }
+
+    // List keys: GET /admin/keys?cursor=&limit=
+    if (url.pathname === "/admin/keys" && request.method === "GET") {
+      const limit = Math.min(
+        Math.max(parseInt(url.searchParams.get("limit") || "100") || 100, 1),
+        1000
+      );
+      const page = await keys.list(
+        url.searchParams.get("cursor") || undefined,
+        limit
+      );
+      return Response.json(
+        { keys: page.keys, cursor: page.cursor ?? null },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Single key routes: /admin/keys/:id
+    const keyMatch = url.pathname.match(/^\/admin\/keys\/([0-9a-f]{64})$/);
+    if (keyMatch) {
+      const id = keyMatch[1];
+
+      if (request.method === "GET") {
+        const record = await keys.get(id);
+        if (!record) {
+          return Response.json(
+            { error: "Key not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(
+          { id, record, usage: await getMonthlyUsage(env, id) },
+          { headers: corsHeaders }
+        );
+      }
+
+      if (request.method === "DELETE") {
+        await keys.delete(id);
+        return Response.json({ deleted: id }, { headers: corsHeaders });
+      }
+    }
+
+    return Response.json(
+      { error: "Not found" },
+      { status: 404, headers: corsHeaders }
+    );
+  } catch (error: any) {
+    if (error instanceof BadRequestError) {
+      return Response.json(
+        { error: error.message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    console.error("Error processing admin request:", error);
+    return Response.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
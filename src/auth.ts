@@ -0,0 +1,279 @@
+// Client API keys, per-key rate limits and monthly quotas
+
+import { Env } from "./types";
+import { sha256Hex } from "./hash";
+import { createMetaStore, hasAtomicCounters } from "./meta-store";
+
+const KV_PREFIX = "apikey:";
+const USAGE_TTL_SECONDS = 62 * 24 * 60 * 60;
+const TENANT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Stored in KV under the SHA-256 of the key; the key itself is never stored
+export interface ApiKeyRecord {
+  tenant: string;
+  name?: string;
+  rateLimitPerMinute?: number; // Unset = unlimited
+  monthlyRequestQuota?: number;
+  monthlyTokenQuota?: number; // Provider tokens; cache hits are free
+  createdAt: number;
+}
+
+// The authenticated caller of a request
+export interface AuthContext {
+  keyId: string;
+  record: ApiKeyRecord;
+}
+
+export type Admission =
+  | { ok: true; auth?: AuthContext } // No auth when anonymous access is on
+  | {
+      ok: false;
+      status: 401 | 429 | 503;
+      error: string;
+      headers: Record<string, string>;
+    };
+
+export function isValidTenant(tenant: unknown): tenant is string {
+  return typeof tenant === "string" && TENANT_PATTERN.test(tenant);
+}
+
+export function hasLimits(record: ApiKeyRecord): boolean {
+  return (
+    record.rateLimitPerMinute !== undefined ||
+    record.monthlyRequestQuota !== undefined ||
+    record.monthlyTokenQuota !== undefined
+  );
+}
+
+/**
+ * Limits are only enforced with Redis: KV counters are not atomic and take
+ * up to a minute to reach other locations, so they would not hold
+ */
+export const LIMITS_REQUIRE_REDIS =
+  "Rate limits and quotas require Redis. Set REDIS_URL and REDIS_TOKEN.";
+
+/**
+ * Random key shown to the client once, at creation
+ */
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return (
+    "pck_" +
+    Array.from(bytes)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+/**
+ * UTC month (YYYY-MM) that quotas are counted against
+ */
+function monthKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+function usageKey(keyId: string, time: number): string {
+  return `usage:${keyId}:${monthKey(time)}`;
+}
+
+/**
+ * Seconds until the first instant of the next UTC month
+ */
+function secondsUntilNextMonth(now: number): number {
+  const date = new Date(now);
+  const next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now) / 1000);
+}
+
+/**
+ * API keys in KV. The record is also kept as key metadata, so listing
+ * needs no extra reads.
+ */
+export class ApiKeyStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Issue a key, returning it in plain text along with its id
+   */
+  async create(
+    record: ApiKeyRecord
+  ): Promise<{ id: string; key: string; record: ApiKeyRecord }> {
+    const key = generateApiKey();
+    const id = await sha256Hex(key);
+    await this.kv.put(KV_PREFIX + id, JSON.stringify(record), {
+      metadata: record,
+    });
+    return { id, key, record };
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.kv.get<ApiKeyRecord>(KV_PREFIX + id, "json");
+  }
+
+  async list(
+    cursor?: string,
+    limit: number = 100
+  ): Promise<{
+    keys: { id: string; record: ApiKeyRecord }[];
+    cursor?: string;
+  }> {
+    const page = await this.kv.list<ApiKeyRecord>({
+      prefix: KV_PREFIX,
+      cursor,
+      limit,
+    });
+    return {
+      keys: page.keys.map((key) => ({
+        id: key.name.slice(KV_PREFIX.length),
+        record: key.metadata!,
+      })),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.kv.delete(KV_PREFIX + id);
+  }
+}
+
+/**
+ * Requests and provider tokens used by a key in the current month
+ */
+export async function getMonthlyUsage(
+  env: Env,
+  keyId: string
+): Promise<{ requests: number; tokens: number }> {
+  const usage = await createMetaStore(env).hgetall(usageKey(keyId, Date.now()));
+  return { requests: usage.requests || 0, tokens: usage.tokens || 0 };
+}
+
+/**
+ * Count provider tokens against the key's monthly quota
+ */
+export async function recordTokenUsage(
+  env: Env,
+  auth: AuthContext,
+  tokens: number
+): Promise<void> {
+  await createMetaStore(env).hincrby([
+    {
+      key: usageKey(auth.keyId, Date.now()),
+      fields: { tokens },
+      ttlSeconds: USAGE_TTL_SECONDS,
+    },
+  ]);
+}
+
+/**
+ * Authenticate the request's bearer key without applying limits
+ */
+export async function authenticate(
+  request: Request,
+  env: Env
+): Promise<Admission> {
+  const header = request.headers.get("Authorization") || "";
+  const key = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+  if (!key) {
+    if (env.ALLOW_ANONYMOUS === "true") {
+      return { ok: true };
+    }
+    return {
+      ok: false,
+      status: 401,
+      error: "Missing API key. Send it as Authorization: Bearer <key>.",
+      headers: { "WWW-Authenticate": "Bearer" },
+    };
+  }
+
+  const keys = new ApiKeyStore(env.CACHE_STATS);
+  const keyId = await sha256Hex(key);
+  const record = await keys.get(keyId);
+  if (!record) {
+    return {
+      ok: false,
+      status: 401,
+      error: "Invalid API key",
+      headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' },
+    };
+  }
+
+  return { ok: true, auth: { keyId, record } };
+}
+
+/**
+ * Authenticate the request's bearer key and apply its rate limit and
+ * quotas. Admitted requests are counted against the monthly quota.
+ */
+export async function admitRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Admission> {
+  const authentication = await authenticate(request, env);
+  if (!authentication.ok || !authentication.auth) return authentication;
+
+  const { keyId, record } = authentication.auth;
+  if (hasLimits(record) && !hasAtomicCounters(env)) {
+    return { ok: false, status: 503, error: LIMITS_REQUIRE_REDIS, headers: {} };
+  }
+  const store = createMetaStore(env);
+  const now = Date.now();
+
+  // Fixed one-minute windows
+  const minute = Math.floor(now / 60_000);
+  const [usage, requestsThisMinute] = await Promise.all([
+    getMonthlyUsage(env, keyId),
+    record.rateLimitPerMinute !== undefined
+      ? store.incr(`ratelimit:${keyId}:${minute}`, 60)
+      : Promise.resolve(0),
+  ]);
+
+  if (
+    (record.monthlyRequestQuota !== undefined &&
+      usage.requests >= record.monthlyRequestQuota) ||
+    (record.monthlyTokenQuota !== undefined &&
+      usage.tokens >= record.monthlyTokenQuota)
+  ) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Monthly quota exceeded",
+      headers: { "Retry-After": secondsUntilNextMonth(now).toString() },
+    };
+  }
+
+  if (
+    record.rateLimitPerMinute !== undefined &&
+    requestsThisMinute > record.rateLimitPerMinute
+  ) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Rate limit exceeded",
+      headers: {
+        "Retry-After": Math.ceil(
+          ((minute + 1) * 60_000 - now) / 1000
+        ).toString(),
+      },
+    };
+  }
+
+  ctx.waitUntil(
+    store
+      .hincrby([
+        {
+          key: usageKey(keyId, now),
+          fields: { requests: 1 },
+          ttlSeconds: USAGE_TTL_SECONDS,
+        },
+      ])
+      .catch((e) => console.error("Failed to record request usage:", e))
+  );
+
+  return { ok: true, auth: { keyId, record } };
+}
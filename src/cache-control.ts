@@ -0,0 +1,92 @@
+// Per-request cache directives, from the cache_mode and max_age request
+// fields or a Cache-Control header
+
+export type CacheMode =
+  | "default"
+  | "bypass"
+  | "refresh"
+  | "read-only"
+  | "write-only"
+  | "only-if-cached";
+
+export const CACHE_MODES: CacheMode[] = [
+  "default",
+  "bypass",
+  "refresh",
+  "read-only",
+  "write-only",
+  "only-if-cached",
+];
+
+export interface CacheDirectives {
+  read: boolean; // Serve cached entries
+  write: boolean; // Cache the provider's response
+  onlyIfCached: boolean; // Never call the provider
+  maxAge?: number; // Seconds; older entries are not served
+}
+
+const MODE_DIRECTIVES: Record<CacheMode, Omit<CacheDirectives, "maxAge">> = {
+  default: { read: true, write: true, onlyIfCached: false },
+  bypass: { read: false, write: false, onlyIfCached: false },
+  refresh: { read: false, write: true, onlyIfCached: false },
+  "read-only": { read: true, write: false, onlyIfCached: false },
+  "write-only": { read: false, write: true, onlyIfCached: false },
+  "only-if-cached": { read: true, write: false, onlyIfCached: true },
+};
+
+export const DEFAULT_DIRECTIVES: CacheDirectives = MODE_DIRECTIVES.default;
+
+export function isValidCacheMode(mode: unknown): boolean {
+  return mode === undefined || CACHE_MODES.includes(mode as CacheMode);
+}
+
+export function isValidMaxAge(maxAge: unknown): boolean {
+  return maxAge === undefined || (typeof maxAge === "number" && maxAge >= 0);
+}
+
+/**
+ * Mode and max-age named by a Cache-Control header: `no-cache` refreshes,
+ * `no-store` reads without writing, both bypass the cache, and
+ * `only-if-cached` never calls the provider. Unknown directives are ignored.
+ */
+function parseCacheControl(header: string | null): {
+  mode: CacheMode;
+  maxAge?: number;
+} {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (header || "").split(",")) {
+    const [name, value] = part.trim().toLowerCase().split("=");
+    if (name) directives.set(name, value);
+  }
+
+  const noCache = directives.has("no-cache");
+  const noStore = directives.has("no-store");
+  const mode: CacheMode = directives.has("only-if-cached")
+    ? "only-if-cached"
+    : noCache && noStore
+      ? "bypass"
+      : noCache
+        ? "refresh"
+        : noStore
+          ? "read-only"
+          : "default";
+
+  const maxAge = parseInt(directives.get("max-age") ?? "");
+  return { mode, maxAge: maxAge >= 0 ? maxAge : undefined };
+}
+
+/**
+ * Directives for a request. The cache_mode and max_age fields take
+ * precedence over the Cache-Control header.
+ */
+export function cacheDirectives(
+  header: string | null,
+  mode?: CacheMode,
+  maxAge?: number
+): CacheDirectives {
+  const fromHeader = parseCacheControl(header);
+  return {
+    ...MODE_DIRECTIVES[mode ?? fromHeader.mode],
+    maxAge: maxAge ?? fromHeader.maxAge,
+  };
+}
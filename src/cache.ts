@@ -1,105 +1,729 @@
 // Caching logic with embedding generation
 
-import { Env, CachedEntry } from "./types";
-import { RedisVectorStore } from "./redis";
+import {
+  Env,
+  CachedEntry,
+  CacheListPage,
+  CacheScope,
+  ChatMessage,
+  EntryUsage,
+  NegativeExample,
+  VectorStore,
+} from "./types";
+import { createVectorStore } from "./vector-store";
+import { hmacSha256Hex, sha256Hex } from "./hash";
+import { Metrics } from "./metrics";
+import {
+  DEFAULT_EMBEDDING_CACHE_SIZE,
+  EmbeddingCache,
+  getEmbeddingModel,
+} from "./embeddings";
+import { embedThroughGateway } from "./gateway";
+import { embeddingModelOf, isExcludedByFeedback } from "./similarity";
+import { getModelRegistry } from "./models";
+import { getEncryptionConfig, getEntryIdKey, isEncrypted } from "./encryption";
+
+export const DEFAULT_NAMESPACE = "default";
+
+// Candidates fetched per lookup, so an entry excluded by feedback can give
+// way to the next nearest one
+const SEARCH_CANDIDATES = 5;
+
+// Negative examples kept per entry; the oldest are dropped first
+const MAX_NEGATIVES = 20;
+
+// Results added per round of a semantic delete
+const DELETE_PAGE_SIZE = 100;
+
+// Entries read per page when eviction or a purge lists the whole store
+const USAGE_PAGE_SIZE = 1000;
+
+// Entries deleted per call when evicting or purging
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Round max_tokens up to the next power of two so nearby limits share entries
+ */
+export function maxTokensBucket(maxTokens: number): number {
+  let bucket = 64;
+  while (bucket < maxTokens) {
+    bucket *= 2;
+  }
+  return bucket;
+}
+
+/**
+ * Round temperature to the nearest 0.25 step
+ */
+export function temperatureBucket(temperature: number): number {
+  return Math.round(temperature * 4) / 4;
+}
+
+/**
+ * Hash the conversation that precedes the final message (system prompt and
+ * earlier turns), so the same question in two conversations never collides
+ */
+export async function hashContext(context: ChatMessage[]): Promise<string> {
+  return sha256Hex(
+    JSON.stringify(context.map((m) => [m.role, m.content.trim()]))
+  );
+}
+
+/**
+ * Normalize a prompt for exact matching: case and runs of whitespace are
+ * ignored
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Entry id for a prompt: a hash of the normalized prompt, the model and the
+ * cache partition. An exact repeat finds its entry with a single read.
+ * With encryption configured the hash is an HMAC keyed by `idKey`, so the
+ * ids in the store do not reveal which prompts were cached.
+ */
+export async function exactMatchId(
+  prompt: string,
+  model: string,
+  scope: CacheScope,
+  idKey: CryptoKey | null = null
+): Promise<string> {
+  const text = JSON.stringify([
+    normalizePrompt(prompt),
+    model,
+    scope.namespace,
+    scope.maxTokensBucket,
+    scope.temperatureBucket,
+    scope.contextHash,
+  ]);
+  return idKey ? hmacSha256Hex(idKey, text) : sha256Hex(text);
+}
+
+/**
+ * Client-supplied namespaces may not contain "/", which separates the
+ * tenant from the namespace
+ */
+export function isValidNamespace(namespace: unknown): boolean {
+  return (
+    namespace === undefined ||
+    (typeof namespace === "string" && !namespace.includes("/"))
+  );
+}
+
+/**
+ * Request-supplied similarity thresholds must be between 0 and 1
+ */
+export function isValidThreshold(threshold: unknown): boolean {
+  return (
+    threshold === undefined ||
+    (typeof threshold === "number" && threshold >= 0 && threshold <= 1)
+  );
+}
+
+/**
+ * Request-supplied temperatures must be numbers between 0 and 2
+ */
+export function isValidTemperature(temperature: unknown): boolean {
+  return (
+    temperature === undefined ||
+    (typeof temperature === "number" && temperature >= 0 && temperature <= 2)
+  );
+}
+
+/**
+ * Request-supplied token limits must be positive integers
+ */
+export function isValidMaxTokens(maxTokens: unknown): boolean {
+  return (
+    maxTokens === undefined ||
+    (Number.isInteger(maxTokens) && (maxTokens as number) > 0)
+  );
+}
+
+/**
+ * Namespace qualified by the caller's tenant, so tenants never share entries
+ */
+export function tenantNamespace(namespace?: string, tenant?: string): string {
+  const name = namespace || DEFAULT_NAMESPACE;
+  return tenant ? `${tenant}/${name}` : name;
+}
+
+/**
+ * Build the cache partition for a request
+ */
+export function buildCacheScope(
+  model: string,
+  maxTokens: number,
+  temperature: number,
+  contextHash: string,
+  namespace?: string,
+  allowCrossModel: boolean = false
+): CacheScope {
+  return {
+    model: allowCrossModel ? undefined : model,
+    namespace: namespace || DEFAULT_NAMESPACE,
+    maxTokensBucket: maxTokensBucket(maxTokens),
+    temperatureBucket: temperatureBucket(temperature),
+    contextHash,
+  };
+}
+
+export type EvictionPolicy = "lru" | "lfu";
+
+// Per-model and per-namespace overrides of SIMILARITY_THRESHOLD
+interface ThresholdOverrides {
+  models?: Record<string, number>;
+  namespaces?: Record<string, number>;
+}
+
+// How a cached response matched the request
+export type MatchType = "exact" | "semantic";
+
+export interface CacheMatch {
+  id: string;
+  entry: CachedEntry;
+  similarity: number;
+  match: MatchType;
+}
+
+// Filters for the admin listing and semantic delete
+export interface EntryFilter {
+  model?: string;
+  namespace?: string;
+  maxAgeSeconds?: number; // Only entries written within this many seconds
+  promptContains?: string; // Case-insensitive prompt substring
+}
 
 export class PromptCache {
-  private redis: RedisVectorStore;
-  private ai: any;
+  private store: VectorStore;
+  private env: Env;
+  private embeddingModel: string;
   private similarityThreshold: number;
+  private thresholdOverrides: ThresholdOverrides;
+  private defaultTtlSeconds?: number;
+  private maxEntries?: number;
+  private evictionPolicy: EvictionPolicy;
+  private metrics?: Metrics;
+  private embeddings: EmbeddingCache;
+  private encryptionKeyId?: string;
+  private idKey: Promise<CryptoKey> | null;
 
-  constructor(env: Env) {
-    this.redis = new RedisVectorStore(env.REDIS_URL, env.REDIS_TOKEN);
-    this.ai = env.AI;
+  // Embedding latency and lookup similarity are observed on `metrics`
+  // when given
+  constructor(env: Env, metrics?: Metrics) {
+    this.store = createVectorStore(env);
+    this.metrics = metrics;
+    this.env = env;
+    this.embeddingModel = getEmbeddingModel(env);
     this.similarityThreshold = parseFloat(env.SIMILARITY_THRESHOLD || "0.85");
+    try {
+      this.thresholdOverrides = env.SIMILARITY_THRESHOLDS
+        ? JSON.parse(env.SIMILARITY_THRESHOLDS)
+        : {};
+    } catch (e) {
+      console.error("Ignoring invalid SIMILARITY_THRESHOLDS:", e);
+      this.thresholdOverrides = {};
+    }
+    this.defaultTtlSeconds = env.CACHE_TTL_SECONDS
+      ? parseInt(env.CACHE_TTL_SECONDS)
+      : undefined;
+    this.maxEntries = env.CACHE_MAX_ENTRIES
+      ? parseInt(env.CACHE_MAX_ENTRIES)
+      : undefined;
+    this.evictionPolicy = env.CACHE_EVICTION_POLICY === "lfu" ? "lfu" : "lru";
+    this.embeddings = new EmbeddingCache(
+      env.EMBEDDING_CACHE_SIZE !== undefined
+        ? parseInt(env.EMBEDDING_CACHE_SIZE)
+        : DEFAULT_EMBEDDING_CACHE_SIZE
+    );
+    const encryption = getEncryptionConfig(env);
+    this.encryptionKeyId = encryption?.currentKeyId;
+    this.idKey = encryption ? getEntryIdKey(encryption) : null;
   }
 
   /**
-   * Generate embedding for a prompt using Workers AI
+   * Entry id for a prompt, keyed by the current encryption key when
+   * encryption is configured
+   */
+  async entryId(
+    prompt: string,
+    model: string,
+    scope: CacheScope
+  ): Promise<string> {
+    return exactMatchId(prompt, model, scope, await this.idKey);
+  }
+
+  /**
+   * Generate embedding for a prompt with the configured EMBEDDING_MODEL,
+   * reusing a cached embedding of the same text when there is one
    */
   async generateEmbedding(text: string): Promise<number[]> {
-    const response = await this.ai.run("@cf/google/embeddinggemma-300m", {
-      text: text,
-    });
+    const cached = await this.embeddings.get(this.embeddingModel, text);
+    if (cached) return cached;
+
+    const startedAt = Date.now();
+    const [embedding] = await embedThroughGateway(
+      this.embeddingModel,
+      [text],
+      this.env
+    );
+    this.metrics?.observeEmbeddingLatency(Date.now() - startedAt);
+
+    await this.embeddings.set(this.embeddingModel, text, embedding);
+    return embedding;
+  }
+
+  /**
+   * Embed several texts with a single call for those the isolate's
+   * embedding cache does not have
+   */
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const embeddings: (number[] | undefined)[] = [];
+    for (const text of texts) {
+      embeddings.push(await this.embeddings.get(this.embeddingModel, text));
+    }
+
+    const missing = texts.filter((_, i) => !embeddings[i]);
+    if (missing.length > 0) {
+      const startedAt = Date.now();
+      const fresh = await embedThroughGateway(
+        this.embeddingModel,
+        missing,
+        this.env
+      );
+      this.metrics?.observeEmbeddingLatency(Date.now() - startedAt);
+      let next = 0;
+      for (let i = 0; i < texts.length; i++) {
+        if (embeddings[i]) continue;
+        embeddings[i] = fresh[next++];
+        await this.embeddings.set(
+          this.embeddingModel,
+          texts[i],
+          embeddings[i]!
+        );
+      }
+    }
+    return embeddings as number[][];
+  }
 
-    // Extract embedding array from response
-    return response.data[0];
+  /**
+   * Similarity threshold for a lookup: the request's own, then the
+   * namespace's, then the model's (SIMILARITY_THRESHOLDS, then the model
+   * registry), then SIMILARITY_THRESHOLD. Namespace overrides match the
+   * tenant-qualified name first, then the bare name.
+   */
+  similarityThresholdFor(
+    model: string,
+    namespace: string,
+    requested?: number
+  ): number {
+    const { models = {}, namespaces = {} } = this.thresholdOverrides;
+    const bareNamespace = namespace.slice(namespace.indexOf("/") + 1);
+    return (
+      requested ??
+      namespaces[namespace] ??
+      namespaces[bareNamespace] ??
+      models[model] ??
+      getModelRegistry(this.env).resolve(model)?.cache?.similarityThreshold ??
+      this.similarityThreshold
+    );
   }
 
   /**
-   * Search for a cached response for a similar prompt
+   * Look up the entry for this exact prompt (after normalization), without
+   * generating an embedding
    */
-  async findSimilarCache(prompt: string): Promise<{
-    entry: CachedEntry;
-    similarity: number;
-  } | null> {
+  async findExactCache(
+    prompt: string,
+    model: string,
+    scope: CacheScope
+  ): Promise<CacheMatch | null> {
+    const id = await this.entryId(prompt, model, scope);
+    const entry = await this.store.get(id);
+    return entry ? { id, entry, similarity: 1, match: "exact" } : null;
+  }
+
+  /**
+   * Search for a cached response for a similar prompt. The prompt's
+   * embedding and the nearest entry are returned either way, so a miss can
+   * be cached without embedding it again and near misses can be sampled.
+   */
+  async findSimilarCache(
+    prompt: string,
+    scope: CacheScope,
+    threshold: number = this.similarityThreshold
+  ): Promise<{
+    hit: CacheMatch | null;
+    nearest: CacheMatch | null;
+    embedding: number[];
+  }> {
     // Generate embedding for the input prompt
     const embedding = await this.generateEmbedding(prompt);
 
-    // Search for similar prompts in Redis
-    const results = await this.redis.searchSimilar(
+    // Fetch the nearest prompts within the request's partition, however
+    // distant, so the similarity distribution includes near misses. Entries
+    // reported as wrong matches for prompts like this one are skipped.
+    const results = await this.store.search(
       embedding,
-      this.similarityThreshold,
-      1
+      -1,
+      scope,
+      SEARCH_CANDIDATES
+    );
+    const best = results.find(
+      (r) => !isExcludedByFeedback(r.data, embedding, r.score)
     );
 
-    if (results.length === 0) {
-      return null;
+    if (!best) {
+      return { hit: null, nearest: null, embedding };
     }
 
-    const best = results[0];
-    return {
+    this.metrics?.observeSimilarity(best.score);
+
+    const nearest: CacheMatch = {
+      id: best.id,
       entry: best.data,
       similarity: best.score,
+      match: "semantic",
+    };
+    return {
+      hit: best.score >= threshold ? nearest : null,
+      nearest,
+      embedding,
     };
   }
 
   /**
-   * Store a new prompt-response pair in cache
+   * Store a new prompt-response pair in cache. Returns the entry id.
    */
   async cacheResponse(
     prompt: string,
     response: string,
-    model: string
-  ): Promise<void> {
-    // Generate embedding
-    const embedding = await this.generateEmbedding(prompt);
+    model: string,
+    scope: CacheScope,
+    ttlSeconds: number | undefined = this.defaultTtlSeconds,
+    embedding?: number[], // From the lookup, when the caller has it
+    replaces?: CacheMatch // Entry the response supersedes, if any
+  ): Promise<string> {
+    embedding = embedding || (await this.generateEmbedding(prompt));
+    const now = Date.now();
 
     // Create cache entry
     const entry: CachedEntry = {
       prompt,
       embedding,
       response,
-      timestamp: Date.now(),
+      timestamp: now,
       model,
+      namespace: scope.namespace,
+      maxTokensBucket: scope.maxTokensBucket,
+      temperatureBucket: scope.temperatureBucket,
+      contextHash: scope.contextHash,
+      embeddingModel: this.embeddingModel,
+      embeddingDim: embedding.length,
+      hits: 0,
+      lastAccessed: now,
+      expiresAt: ttlSeconds ? now + ttlSeconds * 1000 : undefined,
+    };
+
+    // Deterministic ID, so the exact-match path can find this entry
+    const id = await this.entryId(prompt, model, scope);
+
+    // Overwriting the entry for the same prompt keeps its pin and the
+    // negative examples reported against it
+    if (replaces?.id === id) {
+      entry.negatives = replaces.entry.negatives;
+      if (replaces.entry.pinned) {
+        entry.pinned = true;
+        entry.expiresAt = undefined;
+      }
+    }
+
+    // Store in the configured vector store
+    await this.store.store(id, entry);
+    return id;
+  }
+
+  /**
+   * Bring an entry up to date with the configured embedding model,
+   * re-embedding its prompt if it was embedded with another one. Returns
+   * false when the entry was already current; throws when it is encrypted
+   * with a key that is not configured, as its prompt cannot be read.
+   */
+  async reembedEntry(id: string, entry: CachedEntry): Promise<boolean> {
+    if (entry.embeddingModel === this.embeddingModel) return false;
+    if (isEncrypted(entry.prompt) || isEncrypted(entry.response)) {
+      throw new Error(
+        `Entry ${id} is encrypted with key ${entry.encryptionKeyId}, which is not configured.`
+      );
+    }
+
+    // Entries from before the model was recorded only need stamping when
+    // they were embedded with the model that is configured now
+    if (embeddingModelOf(entry) === this.embeddingModel) {
+      await this.store.store(id, {
+        ...entry,
+        embeddingModel: this.embeddingModel,
+        embeddingDim: entry.embedding.length,
+      });
+      return true;
+    }
+
+    const embedding = await this.generateEmbedding(entry.prompt);
+    const negatives: NegativeExample[] = [];
+    for (const negative of entry.negatives || []) {
+      negatives.push({
+        prompt: negative.prompt,
+        embedding: await this.generateEmbedding(negative.prompt),
+      });
+    }
+
+    await this.store.store(id, {
+      ...entry,
+      embedding,
+      embeddingModel: this.embeddingModel,
+      embeddingDim: embedding.length,
+      negatives: negatives.length > 0 ? negatives : undefined,
+    });
+    return true;
+  }
+
+  /**
+   * Re-encrypt an entry with the current CACHE_ENCRYPTION_KEY_ID, or encrypt
+   * it if it was written in the clear, moving it to the id keyed by that
+   * key. Returns false when the entry was already current; throws when it
+   * is encrypted with a key that is no longer configured.
+   */
+  async reencryptEntry(id: string, entry: CachedEntry): Promise<boolean> {
+    if (!this.encryptionKeyId) {
+      throw new Error("Encryption requires CACHE_ENCRYPTION_KEYS.");
+    }
+    if (isEncrypted(entry.prompt) || isEncrypted(entry.response)) {
+      throw new Error(
+        `Entry ${id} is encrypted with key ${entry.encryptionKeyId}, which is not configured.`
+      );
+    }
+    const target = await this.entryId(entry.prompt, entry.model, entry);
+    if (entry.encryptionKeyId === this.encryptionKeyId && target === id) {
+      return false;
+    }
+
+    // The store encrypts with the current key on the way in
+    if (target === id) {
+      await this.store.store(id, entry);
+      return true;
+    }
+
+    // An entry written under the new id since the rotation is newer
+    if (!(await this.store.get(target))) {
+      await this.store.store(target, entry);
+    }
+    await this.store.delete(id);
+    return true;
+  }
+
+  /**
+   * Count a hit on an entry that was reported as a wrong match, keeping
+   * the reported prompt as a negative example when given so similar
+   * prompts are no longer served from it. Returns null when the entry no
+   * longer exists.
+   */
+  async recordFalseHit(
+    id: string,
+    negative?: NegativeExample
+  ): Promise<CachedEntry | null> {
+    const entry = await this.store.get(id);
+    if (!entry) return null;
+
+    entry.falseHits = (entry.falseHits || 0) + 1;
+    if (negative) {
+      entry.negatives = [...(entry.negatives || []), negative].slice(
+        -MAX_NEGATIVES
+      );
+    }
+
+    await this.store.store(id, entry);
+    return entry;
+  }
+
+  /**
+   * Record that an entry was served, for LRU/LFU eviction
+   */
+  async recordHit(id: string): Promise<void> {
+    await this.store.recordHit(id);
+  }
+
+  /**
+   * Evict entries beyond CACHE_MAX_ENTRIES using the eviction policy.
+   * Reads the eviction fields of the whole store, so only the cron trigger
+   * runs it. Returns the number of entries evicted.
+   */
+  async enforceMaxEntries(): Promise<number> {
+    if (!this.maxEntries) return 0;
+    if ((await this.store.count()) <= this.maxEntries) return 0;
+
+    // Victims are chosen across the whole cache; pinned entries are exempt.
+    // The listing is counted rather than trusting count() for the overflow.
+    const entries = await this.listAllUsage();
+    const size = entries.length;
+    const candidates = entries.filter((e) => !e.usage.pinned);
+
+    const lastAccessed = (e: EntryUsage) => e.lastAccessed ?? e.timestamp;
+    candidates.sort((a, b) => {
+      if (this.evictionPolicy === "lfu") {
+        const byHits = (a.usage.hits || 0) - (b.usage.hits || 0);
+        if (byHits !== 0) return byHits;
+      }
+      return lastAccessed(a.usage) - lastAccessed(b.usage);
+    });
+
+    const victims = candidates.slice(0, size - this.maxEntries);
+    await this.deleteInBatches(victims.map((v) => v.id));
+    return victims.length;
+  }
+
+  /**
+   * List a page of entries matching the filter. Filtering is applied per
+   * store page, so a page can hold fewer than `limit` entries while a
+   * cursor is still returned.
+   */
+  async listEntries(
+    filter: EntryFilter,
+    cursor?: string,
+    limit: number = 50
+  ): Promise<CacheListPage> {
+    const page = await this.store.list(cursor, limit);
+    return {
+      entries: page.entries.filter((e) => this.matchesFilter(e.data, filter)),
+      cursor: page.cursor,
     };
+  }
 
-    // Generate unique ID for this entry
-    const id = this.generateId(prompt);
+  /**
+   * Fetch a single entry by id
+   */
+  async getEntry(id: string): Promise<CachedEntry | null> {
+    return this.store.get(id);
+  }
 
-    // Store in Redis
-    await this.redis.store(id, entry);
+  /**
+   * Delete a single entry by id
+   */
+  async deleteEntry(id: string): Promise<void> {
+    await this.store.delete(id);
   }
 
   /**
-   * Generate a unique ID for a prompt
+   * Delete every entry whose prompt is within `threshold` of the given
+   * prompt. Returns the ids that were deleted.
    */
-  private generateId(prompt: string): string {
-    // Simple hash function for generating IDs
-    let hash = 0;
-    for (let i = 0; i < prompt.length; i++) {
-      const char = prompt.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  async deleteSimilar(
+    prompt: string,
+    threshold: number,
+    filter: EntryFilter = {}
+  ): Promise<string[]> {
+    const embedding = await this.generateEmbedding(prompt);
+    const deleted: string[] = [];
+
+    // Page by score: entries the filter excludes stay in the store and rank
+    // first, so each round asks for that many more results than the last.
+    // A round that comes back short has reached the threshold.
+    let skipped = 0;
+    while (true) {
+      const limit = skipped + DELETE_PAGE_SIZE;
+      const results = await this.store.search(
+        embedding,
+        threshold,
+        undefined,
+        limit
+      );
+      const matches = results.filter((r) => this.matchesFilter(r.data, filter));
+
+      for (const match of matches) {
+        await this.store.delete(match.id);
+        deleted.push(match.id);
+      }
+      if (results.length < limit) break;
+      skipped = results.length - matches.length;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Delete every entry, including pinned ones. Returns the number deleted.
+   */
+  async purge(): Promise<number> {
+    // Collect ids first so deleting does not disturb the listing cursor
+    const ids = (await this.listAllUsage()).map((e) => e.id);
+    await this.deleteInBatches(ids);
+    return ids.length;
+  }
+
+  /**
+   * Pin or unpin an entry. Pinned entries never expire and are skipped by
+   * eviction; unpinning restarts the default TTL.
+   */
+  async setPinned(id: string, pinned: boolean): Promise<CachedEntry | null> {
+    const entry = await this.store.get(id);
+    if (!entry) return null;
+
+    entry.pinned = pinned;
+    entry.expiresAt =
+      !pinned && this.defaultTtlSeconds
+        ? Date.now() + this.defaultTtlSeconds * 1000
+        : undefined;
+
+    await this.store.store(id, entry);
+    return entry;
+  }
+
+  /**
+   * Check an entry against the admin filters
+   */
+  private matchesFilter(entry: CachedEntry, filter: EntryFilter): boolean {
+    if (filter.model && entry.model !== filter.model) return false;
+    if (filter.namespace && entry.namespace !== filter.namespace) return false;
+    if (
+      filter.maxAgeSeconds !== undefined &&
+      Date.now() - entry.timestamp > filter.maxAgeSeconds * 1000
+    ) {
+      return false;
+    }
+    if (
+      filter.promptContains &&
+      !entry.prompt.toLowerCase().includes(filter.promptContains.toLowerCase())
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Read the eviction fields of every entry by paging through the store
+   */
+  private async listAllUsage(): Promise<{ id: string; usage: EntryUsage }[]> {
+    const entries: { id: string; usage: EntryUsage }[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.listUsage(cursor, USAGE_PAGE_SIZE);
+      entries.push(...page.entries);
+      cursor = page.cursor;
+    } while (cursor);
+    return entries;
+  }
+
+  private async deleteInBatches(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await this.store.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
     }
-    return `${Math.abs(hash)}_${Date.now()}`;
   }
 
   /**
    * Get cache statistics
    */
   async getStats(): Promise<{ size: number }> {
-    const size = await this.redis.getCacheSize();
+    const size = await this.store.count();
     return { size };
   }
 }
@@ -0,0 +1,226 @@
+// Calibration samples: near-threshold lookups, labeled as correct or wrong
+// matches, used to suggest a similarity threshold
+
+import { EntryCipher, getEncryptionConfig } from "./encryption";
+import { Env } from "./types";
+
+const KV_PREFIX = "calibration:";
+const SAMPLE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Lookups whose nearest entry is within this distance of the threshold are
+// sampled, on both sides of it
+export const CALIBRATION_MARGIN = 0.1;
+
+export type CalibrationLabel = "match" | "mismatch";
+
+export interface CalibrationSample {
+  id: string;
+  prompt: string; // The request's prompt
+  candidateId: string; // Nearest cached entry
+  candidatePrompt: string;
+  similarity: number;
+  threshold: number; // Threshold in force for the lookup
+  served: boolean; // Whether the candidate was returned as a hit
+  model: string;
+  namespace: string;
+  timestamp: number;
+  label?: CalibrationLabel; // Whether the candidate answers the prompt
+}
+
+// Kept as KV metadata (limited to 1 KiB), so suggestions need no reads
+type SampleMetadata = Pick<
+  CalibrationSample,
+  "similarity" | "threshold" | "served" | "model" | "namespace" | "label"
+>;
+
+export interface SampleFilter {
+  model?: string;
+  namespace?: string;
+  labeled?: boolean;
+}
+
+export interface ThresholdSuggestion {
+  suggestedThreshold: number | null; // Null without enough labeled samples
+  targetFalsePositiveRate: number;
+  falsePositiveRate: number | null; // Among labeled samples at the suggestion
+  labeledSamples: number;
+}
+
+export function isCalibrationEnabled(env: Env): boolean {
+  return env.CALIBRATION_MODE === "true";
+}
+
+/**
+ * The calibration store, encrypting prompts when CACHE_ENCRYPTION_KEYS is set
+ */
+export function createCalibrationStore(env: Env): CalibrationStore {
+  const encryption = getEncryptionConfig(env);
+  return new CalibrationStore(
+    env.CACHE_STATS,
+    encryption ? new EntryCipher(encryption) : null
+  );
+}
+
+export function isNearThreshold(similarity: number, threshold: number) {
+  return Math.abs(similarity - threshold) <= CALIBRATION_MARGIN;
+}
+
+function toMetadata(sample: CalibrationSample): SampleMetadata {
+  const { similarity, threshold, served, model, namespace, label } = sample;
+  return { similarity, threshold, served, model, namespace, label };
+}
+
+function matchesFilter(metadata: SampleMetadata, filter: SampleFilter) {
+  return (
+    (filter.model === undefined || metadata.model === filter.model) &&
+    (filter.namespace === undefined ||
+      metadata.namespace === filter.namespace) &&
+    (filter.labeled === undefined ||
+      (metadata.label !== undefined) === filter.labeled)
+  );
+}
+
+/**
+ * Calibration samples in KV, expiring after 30 days. With a cipher, both
+ * prompts are encrypted like the entries they come from.
+ */
+export class CalibrationStore {
+  private kv: KVNamespace;
+  private cipher: EntryCipher | null;
+
+  constructor(kv: KVNamespace, cipher: EntryCipher | null = null) {
+    this.kv = kv;
+    this.cipher = cipher;
+  }
+
+  async record(sample: CalibrationSample): Promise<void> {
+    const stored = this.cipher
+      ? {
+          ...sample,
+          prompt: await this.cipher.encrypt(sample.prompt, sample.id),
+          candidatePrompt: await this.cipher.encrypt(
+            sample.candidatePrompt,
+            sample.id
+          ),
+        }
+      : sample;
+    await this.kv.put(KV_PREFIX + sample.id, JSON.stringify(stored), {
+      metadata: toMetadata(sample),
+      expirationTtl: SAMPLE_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * A sample with its prompts decrypted; those encrypted with a key that is
+   * no longer configured are returned as they are stored
+   */
+  async get(id: string): Promise<CalibrationSample | null> {
+    const sample = await this.kv.get<CalibrationSample>(KV_PREFIX + id, "json");
+    if (!sample || !this.cipher) return sample;
+
+    try {
+      return {
+        ...sample,
+        prompt: await this.cipher.decrypt(sample.prompt, id),
+        candidatePrompt: await this.cipher.decrypt(sample.candidatePrompt, id),
+      };
+    } catch (e) {
+      console.error(`Failed to decrypt calibration sample ${id}:`, e);
+      return sample;
+    }
+  }
+
+  /**
+   * Label a sample. Returns null when it does not exist (or has expired).
+   */
+  async label(
+    id: string,
+    label: CalibrationLabel
+  ): Promise<CalibrationSample | null> {
+    const sample = await this.get(id);
+    if (!sample) return null;
+
+    const labeled = { ...sample, label };
+    await this.record(labeled);
+    return labeled;
+  }
+
+  /**
+   * Page through samples. Filters are applied to each page, so a page may
+   * hold fewer than `limit` samples.
+   */
+  async list(
+    filter: SampleFilter,
+    cursor?: string,
+    limit: number = 100
+  ): Promise<{ samples: CalibrationSample[]; cursor?: string }> {
+    const page = await this.kv.list<SampleMetadata>({
+      prefix: KV_PREFIX,
+      cursor,
+      limit,
+    });
+    const ids = page.keys
+      .filter((key) => key.metadata && matchesFilter(key.metadata, filter))
+      .map((key) => key.name.slice(KV_PREFIX.length));
+
+    const samples = await Promise.all(ids.map((id) => this.get(id)));
+    return {
+      samples: samples.filter((s): s is CalibrationSample => s !== null),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  /**
+   * Lowest threshold at which the share of labeled samples at or above it
+   * that are mismatches stays within `targetFalsePositiveRate`
+   */
+  async suggestThreshold(
+    targetFalsePositiveRate: number,
+    filter: SampleFilter = {}
+  ): Promise<ThresholdSuggestion> {
+    const labeled: SampleMetadata[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<SampleMetadata>({
+        prefix: KV_PREFIX,
+        cursor,
+      });
+      for (const key of page.keys) {
+        if (
+          key.metadata &&
+          matchesFilter(key.metadata, { ...filter, labeled: true })
+        ) {
+          labeled.push(key.metadata);
+        }
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    // Walk down from the most similar sample; every prefix is the set of
+    // samples a threshold at that similarity would serve
+    labeled.sort((a, b) => b.similarity - a.similarity);
+    let suggestedThreshold: number | null = null;
+    let falsePositiveRate: number | null = null;
+    let mismatches = 0;
+    for (let i = 0; i < labeled.length; i++) {
+      if (labeled[i].label === "mismatch") mismatches++;
+
+      // Only cut between distinct similarities
+      const next = labeled[i + 1];
+      if (next && next.similarity === labeled[i].similarity) continue;
+
+      const rate = mismatches / (i + 1);
+      if (rate <= targetFalsePositiveRate) {
+        suggestedThreshold = labeled[i].similarity;
+        falsePositiveRate = rate;
+      }
+    }
+
+    return {
+      suggestedThreshold,
+      targetFalsePositiveRate,
+      falsePositiveRate,
+      labeledSamples: labeled.length,
+    };
+  }
+}
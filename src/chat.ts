@@ -0,0 +1,733 @@
+// Cache lookup, provider call and cache write shared by the chat routes
+
+import {
+  Env,
+  CacheScope,
+  ChatMessage,
+  GatewayResult,
+  GatewayStreamEvent,
+} from "./types";
+import {
+  CacheMatch,
+  MatchType,
+  PromptCache,
+  buildCacheScope,
+  hashContext,
+  tenantNamespace,
+} from "./cache";
+import {
+  callModelGateway,
+  estimateTokens,
+  getProviderName,
+  streamModelGateway,
+} from "./gateway";
+import { callWithResilience, getResilienceConfig } from "./resilience";
+import { replayAsStream } from "./streaming";
+import { Metrics } from "./metrics";
+import { AuthContext, recordTokenUsage } from "./auth";
+import {
+  createCalibrationStore,
+  isCalibrationEnabled,
+  isNearThreshold,
+} from "./calibration";
+import { HitLog } from "./feedback";
+import { sha256Hex } from "./hash";
+import { coalesce } from "./coalesce";
+import { ModelCachePolicy, getModelRegistry } from "./models";
+import { CacheDirectives, DEFAULT_DIRECTIVES } from "./cache-control";
+import {
+  WriteCandidate,
+  WriteSkipReason,
+  getWritePolicy,
+  writeSkipReason,
+} from "./write-policy";
+import {
+  Redaction,
+  RedactionMode,
+  Redactor,
+  createRedactor,
+  getRedactionMode,
+} from "./redaction";
+
+export const DEFAULT_MODEL = "@cf/meta/llama-2-7b-chat-int8";
+export const DEFAULT_MAX_TOKENS = 256;
+export const DEFAULT_TEMPERATURE = 0.7; // /v1/chat/completions uses OpenAI's 1
+
+export interface CompletionParams {
+  // Conversation forwarded to the provider. The final message is what the
+  // cache embeds; everything before it must match exactly.
+  messages: ChatMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  namespace?: string;
+  allowCrossModel?: boolean;
+  ttl?: number;
+  similarityThreshold?: number; // Overrides the configured thresholds
+  directives?: CacheDirectives; // Cache-Control; defaults to read and write
+  auth?: AuthContext; // Scopes the cache to the tenant and meters usage
+}
+
+/**
+ * An only-if-cached request that no cached entry answered
+ */
+export class NotCachedError extends Error {
+  constructor() {
+    super("No cached response matched and only-if-cached was requested");
+    this.name = "NotCachedError";
+  }
+}
+
+export interface CompletionResult extends GatewayResult {
+  requestId: string; // Identifies the request to POST /feedback
+  cached: boolean;
+  stale?: boolean; // Served below the threshold because providers failed
+  similarity?: number;
+  match?: MatchType; // Hits only
+  fallbackModel?: string; // Model that answered, when not the requested one
+  cacheSkipped?: WriteSkipReason; // Why the write policy did not cache it
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+export interface CompletionStream {
+  requestId: string;
+  cached: boolean;
+  stale?: boolean;
+  similarity?: number;
+  match?: MatchType; // Hits only
+  fallbackModel?: string;
+  cacheSkipped?: WriteSkipReason; // Set once the stream has completed
+  events: AsyncIterable<GatewayStreamEvent>;
+}
+
+/**
+ * Cache metadata response headers
+ */
+export function cacheHeaders(
+  result: {
+    requestId: string;
+    cached: boolean;
+    stale?: boolean;
+    similarity?: number;
+    match?: string;
+    fallbackModel?: string;
+    cacheSkipped?: string;
+  },
+  corsHeaders: Record<string, string>
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    "X-Request-Id": result.requestId,
+    "X-Cache": result.stale ? "STALE" : result.cached ? "HIT" : "MISS",
+  };
+  if (result.fallbackModel !== undefined) {
+    headers["X-Fallback-Model"] = result.fallbackModel;
+  }
+  if (result.similarity !== undefined) {
+    headers["X-Cache-Similarity"] = result.similarity.toFixed(4);
+  }
+  if (result.match !== undefined) {
+    headers["X-Cache-Match"] = result.match;
+  }
+  if (result.cacheSkipped !== undefined) {
+    headers["X-Cache-Skipped"] = result.cacheSkipped;
+  }
+  return headers;
+}
+
+/**
+ * Write metrics in the background so they never delay the response
+ */
+function recordInBackground(ctx: ExecutionContext, work: Promise<void>) {
+  ctx.waitUntil(
+    work.catch((e) => console.error("Failed to record metrics:", e))
+  );
+}
+
+/**
+ * Count provider tokens against the caller's quota in the background
+ */
+function meterTokens(
+  params: CompletionParams,
+  env: Env,
+  ctx: ExecutionContext,
+  tokens: number
+) {
+  if (params.auth) {
+    recordInBackground(ctx, recordTokenUsage(env, params.auth, tokens));
+  }
+}
+
+// Outcome of a cache lookup, carried through to the provider call and the
+// cache write on a miss
+interface CacheLookup {
+  requestId: string;
+  cache: PromptCache;
+  metrics: Metrics;
+  scope: CacheScope;
+  prompt: string; // Redacted, as embedded and stored
+  startedAt: number;
+  policy: ModelCachePolicy; // From the model registry
+  redactionMode: RedactionMode;
+  redactor: Redactor | null; // Null when redaction is off
+  redacted: Redaction | null; // The prompt's placeholders and their values
+  directives: CacheDirectives;
+  hit: CacheMatch | null;
+  replaces: CacheMatch | null; // Match the fresh response supersedes
+  nearest: CacheMatch | null; // Served as a stale entry if providers fail
+  embedding?: number[]; // Prompt embedding, when the semantic search ran
+  release?: () => Promise<void>; // Held by the one request calling the provider
+}
+
+/**
+ * Look the request up in the cache, recording the hit or miss
+ */
+async function lookup(
+  params: CompletionParams,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<CacheLookup> {
+  const startedAt = Date.now();
+  const requestId = crypto.randomUUID();
+  const { messages, model, maxTokens, temperature } = params;
+  const rawPrompt = messages[messages.length - 1].content;
+
+  // Sensitive values are replaced by placeholders before the prompt is
+  // embedded, stored or logged. In refuse mode a prompt containing any is
+  // kept out of the cache altogether.
+  const redactionMode = getRedactionMode(env);
+  const redactor = redactionMode === "off" ? null : createRedactor(env);
+  const redacted = redactor?.redact(rawPrompt) ?? null;
+  const sensitive = redactionMode === "refuse" && !!redacted?.detected.length;
+  const prompt = redacted?.text ?? rawPrompt;
+
+  // Cache partition: model, generation parameters, conversation context
+  // and namespace
+  const scope = buildCacheScope(
+    model,
+    maxTokens,
+    temperature,
+    await hashContext(messages.slice(0, -1)),
+    tenantNamespace(params.namespace, params.auth?.record.tenant),
+    params.allowCrossModel
+  );
+
+  // Initialize cache
+  const metrics = new Metrics(env);
+  const cache = new PromptCache(env, metrics);
+  const labels = {
+    model,
+    provider: getProviderName(model, env),
+    namespace: scope.namespace,
+  };
+
+  // Models whose policy disables caching skip the lookup entirely, as do
+  // requests that neither read nor write and refused sensitive prompts
+  const policy = getModelRegistry(env).resolve(model)?.cache || {};
+  const directives = params.directives ?? DEFAULT_DIRECTIVES;
+  const cacheable =
+    policy.enabled !== false &&
+    !sensitive &&
+    (directives.read || directives.write);
+
+  // Exact repeats are found without an embedding call; everything else
+  // goes through the semantic search. Requests that only write look up
+  // the exact entry they are about to overwrite.
+  let cachedResult = cacheable
+    ? await cache.findExactCache(prompt, model, scope)
+    : null;
+  let embedding: number[] | undefined;
+  let nearest: CacheMatch | null = null;
+  let calibrationSampleId: string | undefined;
+  if (!cachedResult && cacheable && directives.read) {
+    const threshold = cache.similarityThresholdFor(
+      model,
+      scope.namespace,
+      params.similarityThreshold
+    );
+    const search = await cache.findSimilarCache(prompt, scope, threshold);
+    cachedResult = search.hit;
+    embedding = search.embedding;
+
+    // In calibration mode, keep near-threshold pairs for labeling
+    nearest = search.nearest;
+    if (
+      nearest &&
+      isCalibrationEnabled(env) &&
+      isNearThreshold(nearest.similarity, threshold)
+    ) {
+      calibrationSampleId = crypto.randomUUID();
+      ctx.waitUntil(
+        createCalibrationStore(env)
+          .record({
+            id: calibrationSampleId,
+            prompt,
+            candidateId: nearest.id,
+            candidatePrompt: nearest.entry.prompt,
+            similarity: nearest.similarity,
+            threshold,
+            served: search.hit !== null,
+            model,
+            namespace: scope.namespace,
+            timestamp: Date.now(),
+          })
+          .catch((e) => console.error("Failed to record calibration:", e))
+      );
+    }
+  }
+
+  // Entries older than the request's max-age are not served, and requests
+  // that do not read call the provider instead. Either way the fresh
+  // response supersedes the match.
+  let replaces: CacheMatch | null = null;
+  if (
+    cachedResult &&
+    (!directives.read ||
+      (directives.maxAge !== undefined &&
+        Date.now() - cachedResult.entry.timestamp > directives.maxAge * 1000))
+  ) {
+    replaces = cachedResult;
+    cachedResult = null;
+  }
+
+  // Concurrent misses for the same prompt share one provider call: the
+  // first becomes the leader and the rest wait for its cached response.
+  // Only requests that both read and write take part.
+  let release: (() => Promise<void>) | undefined;
+  if (!cachedResult && cacheable && directives.read && directives.write) {
+    const coalesced = await coalesce(
+      env,
+      await cache.entryId(prompt, model, scope),
+      model,
+      () => cache.findExactCache(prompt, model, scope)
+    );
+    cachedResult = coalesced.hit;
+    release = coalesced.release;
+  }
+
+  // Fill the entry's placeholders in with this prompt's values
+  if (cachedResult && redactor && redacted) {
+    cachedResult = restoreMatch(cachedResult, redactor, redacted);
+  }
+
+  if (cachedResult) {
+    // Cache hit!
+    console.log(
+      `Cache hit (${cachedResult.match})! Similarity: ${cachedResult.similarity}`
+    );
+
+    // Track usage for eviction without delaying the response
+    ctx.waitUntil(
+      cache
+        .recordHit(cachedResult.id)
+        .catch((e) => console.error("Failed to record cache hit:", e))
+    );
+
+    // Keep the hit so the caller can report it as wrong. Feedback needs
+    // the key that made the request, so anonymous hits are not kept.
+    const { auth } = params;
+    if (auth) {
+      const hit = cachedResult;
+      ctx.waitUntil(
+        sha256Hex(prompt)
+          .then((promptHash) =>
+            new HitLog(env.CACHE_STATS).record(requestId, {
+              entryId: hit.id,
+              promptHash,
+              similarity: hit.similarity,
+              match: hit.match,
+              model,
+              namespace: scope.namespace,
+              tenant: auth.record.tenant,
+              calibrationSampleId,
+              timestamp: Date.now(),
+            })
+          )
+          .catch((e) => console.error("Failed to record hit for feedback:", e))
+      );
+    }
+
+    // The whole provider call was avoided, prompt and completion alike
+    metrics.recordHit(labels, Date.now() - startedAt, {
+      promptTokens: estimateTokens(messages.map((m) => m.content).join("")),
+      completionTokens: estimateTokens(cachedResult.entry.response),
+    });
+    recordInBackground(ctx, metrics.flush());
+  } else {
+    // Cache miss - the caller will call the model through the gateway.
+    // Metrics are flushed once the provider has answered.
+    console.log(`Cache miss - calling model ${model} through gateway`);
+
+    metrics.recordMiss(labels);
+  }
+
+  return {
+    requestId,
+    cache,
+    metrics,
+    scope,
+    prompt,
+    startedAt,
+    policy,
+    redactionMode,
+    redactor,
+    redacted,
+    directives,
+    hit: cachedResult,
+    replaces,
+    nearest,
+    embedding,
+    release,
+  };
+}
+
+/**
+ * A copy of `match` whose response has the placeholders it shares with the
+ * prompt replaced by the prompt's values
+ */
+function restoreMatch(
+  match: CacheMatch,
+  redactor: Redactor,
+  redacted: Redaction
+): CacheMatch {
+  const response = redactor.restore(match.entry.response, redacted.values);
+  return { ...match, entry: { ...match.entry, response } };
+}
+
+/**
+ * Let requests waiting on this one go ahead, once its response is cached
+ * or it has failed. Only the first call releases.
+ */
+function releaseLock(lookup: CacheLookup, ctx: ExecutionContext) {
+  const release = lookup.release;
+  lookup.release = undefined;
+  if (release) {
+    ctx.waitUntil(
+      release().catch((e) => console.error("Failed to release lock:", e))
+    );
+  }
+}
+
+/**
+ * Why the write policy keeps a fresh response out of the cache, or null
+ * when it may be cached. Skips are logged and counted; responses that
+ * would not be written anyway are not checked.
+ */
+function checkWritePolicy(
+  lookup: CacheLookup,
+  candidate: Omit<WriteCandidate, "prompt">,
+  env: Env
+): WriteSkipReason | null {
+  if (lookup.policy.enabled === false || !lookup.directives.write) return null;
+
+  const reason =
+    writeSkipReason(getWritePolicy(env), {
+      ...candidate,
+      prompt: lookup.prompt,
+    }) ?? sensitiveSkip(lookup, candidate.text);
+  if (reason) {
+    console.log(`Not caching response: ${reason}`);
+    lookup.metrics.recordWriteSkip(reason);
+  }
+  return reason;
+}
+
+/**
+ * In refuse mode, "sensitive" when the prompt or the response contains
+ * sensitive data
+ */
+function sensitiveSkip(
+  { redactionMode, redactor, redacted }: CacheLookup,
+  text: string
+): WriteSkipReason | null {
+  if (redactionMode !== "refuse" || !redactor) return null;
+  return redacted?.detected.length || redactor.redact(text).detected.length
+    ? "sensitive"
+    : null;
+}
+
+/**
+ * Write a fresh response to the cache. Nothing is written for models whose
+ * cache policy disables caching, or for requests that do not write. An
+ * entry for the same prompt is overwritten, keeping its pin and negative
+ * examples; a semantic match cached for another prompt is left alone. The
+ * cron trigger evicts entries beyond CACHE_MAX_ENTRIES.
+ */
+async function storeResponse(
+  {
+    cache,
+    prompt,
+    scope,
+    embedding,
+    policy,
+    directives,
+    replaces,
+    redactor,
+    redacted,
+  }: CacheLookup,
+  text: string,
+  params: CompletionParams
+): Promise<void> {
+  if (policy.enabled === false || !directives.write) return;
+
+  // Values the prompt shares with the response get the prompt's
+  // placeholders, so a hit can fill in its own prompt's values
+  const stored =
+    redactor && redacted ? redactor.redact(text, redacted.values).text : text;
+
+  // Reuse the lookup's embedding rather than embedding the prompt again
+  await cache.cacheResponse(
+    prompt,
+    stored,
+    params.model,
+    scope,
+    params.ttl ?? policy.ttlSeconds,
+    embedding,
+    replaces ?? undefined
+  );
+}
+
+/**
+ * When every provider failed, the lookup's nearest entry if it clears
+ * STALE_SIMILARITY_THRESHOLD
+ */
+function staleEntry(lookup: CacheLookup, env: Env): CacheMatch | null {
+  const threshold = getResilienceConfig(env).staleSimilarityThreshold;
+  const nearest = lookup.nearest;
+  if (threshold === undefined || !nearest || nearest.similarity < threshold) {
+    return null;
+  }
+  console.log(`Serving stale entry. Similarity: ${nearest.similarity}`);
+  return lookup.redactor && lookup.redacted
+    ? restoreMatch(nearest, lookup.redactor, lookup.redacted)
+    : nearest;
+}
+
+/**
+ * Answer from the cache when a similar prompt exists, otherwise call the
+ * model through the gateway (retrying and falling back as configured) and
+ * cache its response
+ */
+export async function completeWithCache(
+  params: CompletionParams,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<CompletionResult> {
+  const { messages, model, maxTokens, temperature } = params;
+  const cached = await lookup(params, env, ctx);
+  const { requestId, metrics, startedAt, hit } = cached;
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join(""));
+
+  const fromCache = (match: CacheMatch, stale?: boolean) => {
+    const text = match.entry.response;
+    return {
+      requestId,
+      text,
+      finishReason: "stop" as const,
+      cached: true,
+      stale,
+      similarity: match.similarity,
+      match: match.match,
+      usage: { promptTokens, completionTokens: estimateTokens(text) },
+    };
+  };
+
+  if (hit) {
+    return fromCache(hit);
+  }
+  if (cached.directives.onlyIfCached) {
+    recordInBackground(ctx, metrics.flush());
+    throw new NotCachedError();
+  }
+
+  let result: GatewayResult;
+  let answeredBy: string;
+  try {
+    ({ result, model: answeredBy } = await callWithResilience(
+      model,
+      env,
+      (candidate, signal) =>
+        callModelGateway(
+          candidate,
+          messages,
+          maxTokens,
+          temperature,
+          env,
+          signal
+        ),
+      (candidate, latencyMs, failed) =>
+        metrics.observeProviderCall(candidate, latencyMs, failed)
+    ));
+  } catch (error) {
+    recordInBackground(ctx, metrics.flush());
+    releaseLock(cached, ctx);
+    const stale = staleEntry(cached, env);
+    if (stale) return fromCache(stale, true);
+    throw error;
+  }
+
+  metrics.observeLatency("miss", Date.now() - startedAt);
+
+  const usage = result.usage ?? {
+    promptTokens,
+    completionTokens: estimateTokens(result.text),
+  };
+  meterTokens(params, env, ctx, usage.promptTokens + usage.completionTokens);
+
+  // Cache the response unless the write policy rejects it. A fallback
+  // model's answer is not cached under the requested model.
+  const cacheSkipped =
+    answeredBy === model
+      ? checkWritePolicy(cached, { ...result, temperature }, env)
+      : null;
+  try {
+    if (answeredBy === model && !cacheSkipped) {
+      await storeResponse(cached, result.text, params);
+    }
+  } finally {
+    releaseLock(cached, ctx);
+  }
+  recordInBackground(ctx, metrics.flush());
+
+  return {
+    ...result,
+    requestId,
+    cached: false,
+    fallbackModel: answeredBy !== model ? answeredBy : undefined,
+    cacheSkipped: cacheSkipped ?? undefined,
+    usage,
+  };
+}
+
+/**
+ * Streaming variant of completeWithCache. Hits are replayed as a chunked
+ * stream; misses stream from the provider and the full text is cached once
+ * the stream completes (an abandoned stream is not cached). Retries and
+ * fallbacks only apply until the provider starts streaming.
+ */
+export async function streamWithCache(
+  params: CompletionParams,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<CompletionStream> {
+  const { messages, model, maxTokens, temperature } = params;
+  const cached = await lookup(params, env, ctx);
+  const { requestId, metrics, startedAt, hit } = cached;
+
+  const fromCache = (match: CacheMatch, stale?: boolean) => ({
+    requestId,
+    cached: true,
+    stale,
+    similarity: match.similarity,
+    match: match.match,
+    events: replayAsStream(match.entry.response),
+  });
+
+  if (hit) {
+    return fromCache(hit);
+  }
+  if (cached.directives.onlyIfCached) {
+    recordInBackground(ctx, metrics.flush());
+    throw new NotCachedError();
+  }
+
+  // Provider latency runs from the successful attempt until the stream
+  // completes, so only failed attempts are observed here
+  let events: AsyncIterable<GatewayStreamEvent>;
+  let answeredBy: string;
+  let callStartedAt = Date.now();
+  try {
+    ({ result: events, model: answeredBy } = await callWithResilience(
+      model,
+      env,
+      (candidate, signal) =>
+        streamModelGateway(
+          candidate,
+          messages,
+          maxTokens,
+          temperature,
+          env,
+          signal
+        ),
+      (candidate, latencyMs, failed) => {
+        if (failed) {
+          metrics.observeProviderCall(candidate, latencyMs, true);
+        } else {
+          callStartedAt = Date.now() - latencyMs;
+        }
+      }
+    ));
+  } catch (error) {
+    recordInBackground(ctx, metrics.flush());
+    releaseLock(cached, ctx);
+    const stale = staleEntry(cached, env);
+    if (stale) return fromCache(stale, true);
+    throw error;
+  }
+
+  let skipped: WriteSkipReason | undefined;
+  return {
+    requestId,
+    cached: false,
+    fallbackModel: answeredBy !== model ? answeredBy : undefined,
+    get cacheSkipped() {
+      return skipped;
+    },
+    events: (async function* () {
+      let text = "";
+      let finishReason: GatewayStreamEvent["finishReason"];
+      let completed = false;
+      try {
+        for await (const event of events) {
+          text += event.delta;
+          finishReason = event.finishReason ?? finishReason;
+          yield event;
+        }
+        completed = true;
+      } catch (error) {
+        metrics.observeProviderCall(
+          answeredBy,
+          Date.now() - callStartedAt,
+          true
+        );
+        recordInBackground(ctx, metrics.flush());
+        throw error;
+      } finally {
+        // Failed, or abandoned by the client: nothing will be cached
+        if (!completed) releaseLock(cached, ctx);
+      }
+
+      metrics.observeProviderCall(
+        answeredBy,
+        Date.now() - callStartedAt,
+        false
+      );
+      metrics.observeLatency("miss", Date.now() - startedAt);
+      meterTokens(
+        params,
+        env,
+        ctx,
+        estimateTokens(messages.map((m) => m.content).join("") + text)
+      );
+
+      // Cache the response without holding up the end of the stream
+      const cacheSkipped =
+        answeredBy === model
+          ? checkWritePolicy(cached, { text, temperature, finishReason }, env)
+          : null;
+      skipped = cacheSkipped ?? undefined;
+      ctx.waitUntil(
+        (answeredBy === model && !cacheSkipped
+          ? storeResponse(cached, text, params)
+          : Promise.resolve()
+        )
+          .catch((e) => console.error("Failed to cache streamed response:", e))
+          .then(() => {
+            releaseLock(cached, ctx);
+            return metrics.flush();
+          })
+          .catch((e) => console.error("Failed to record metrics:", e))
+      );
+    })(),
+  };
+}
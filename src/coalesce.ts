@@ -0,0 +1,86 @@
+// Request coalescing: concurrent misses for the same prompt wait for one
+// provider call instead of each making their own
+
+import { Env } from "./types";
+import { CacheMatch } from "./cache";
+import { createMetaStore } from "./meta-store";
+import { callBudgetMs, getResilienceConfig } from "./resilience";
+
+const LOCK_PREFIX = "inflight:";
+export const DEFAULT_COALESCE_TIMEOUT_SECONDS = 30;
+
+// Time the leader has to cache its response once the provider answered
+const LOCK_MARGIN_SECONDS = 10;
+
+// Followers poll for the leader's entry, backing off between reads
+const FIRST_POLL_MS = 50;
+const MAX_POLL_MS = 500;
+
+export interface Coalesced {
+  hit: CacheMatch | null; // The leader's response, for followers
+  release?: () => Promise<void>; // Set for the leader, once it is done
+}
+
+export function getCoalesceTimeout(env: Env): number {
+  return env.COALESCE_TIMEOUT_SECONDS !== undefined
+    ? parseInt(env.COALESCE_TIMEOUT_SECONDS)
+    : DEFAULT_COALESCE_TIMEOUT_SECONDS;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Seconds the leader's lock lives: at least COALESCE_TIMEOUT_SECONDS, and
+ * long enough for the provider call to `model` with every retry and
+ * fallback, so it never expires under a leader that is still working
+ */
+function lockTtlSeconds(env: Env, model: string, timeoutSeconds: number) {
+  const budgetMs = callBudgetMs(model, getResilienceConfig(env));
+  return Math.max(
+    timeoutSeconds,
+    Math.ceil(budgetMs / 1000) + LOCK_MARGIN_SECONDS
+  );
+}
+
+/**
+ * Become the leader for `key` or wait for the current one. The leader gets
+ * a `release` to call once its response is cached; the lock also expires
+ * once the call to `model` would have given up, so a crashed leader only
+ * holds it that long. Followers poll `poll` until it finds the leader's
+ * entry; if the leader gives up or COALESCE_TIMEOUT_SECONDS pass, they get
+ * neither a hit nor a lock and call the provider themselves.
+ */
+export async function coalesce(
+  env: Env,
+  key: string,
+  model: string,
+  poll: () => Promise<CacheMatch | null>
+): Promise<Coalesced> {
+  const timeoutSeconds = getCoalesceTimeout(env);
+  if (timeoutSeconds <= 0) return { hit: null };
+
+  // The token makes sure the leader only ever releases its own lock
+  const store = createMetaStore(env);
+  const lockKey = LOCK_PREFIX + key;
+  const token = crypto.randomUUID();
+  const ttlSeconds = lockTtlSeconds(env, model, timeoutSeconds);
+  if (await store.acquire(lockKey, token, ttlSeconds)) {
+    return { hit: null, release: () => store.release(lockKey, token) };
+  }
+
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  let delay = FIRST_POLL_MS;
+  while (Date.now() < deadline) {
+    await sleep(delay);
+    const hit = await poll();
+    if (hit) return { hit };
+
+    // The lock is gone: the leader either cached its response since the
+    // last read or failed
+    if (!(await store.exists(lockKey))) return { hit: await poll() };
+    delay = Math.min(delay * 2, MAX_POLL_MS);
+  }
+  return { hit: null };
+}
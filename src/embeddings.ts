@@ -0,0 +1,63 @@
+// Embedding model selection and an in-isolate LRU cache of prompt embeddings
+
+import { Env } from "./types";
+import { sha256Hex } from "./hash";
+
+export const DEFAULT_EMBEDDING_MODEL = "@cf/google/embeddinggemma-300m";
+export const DEFAULT_EMBEDDING_CACHE_SIZE = 1000;
+
+/**
+ * Embedding model configured with EMBEDDING_MODEL
+ */
+export function getEmbeddingModel(env: Env): string {
+  return env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
+
+// Shared by every cache in the isolate so embeddings survive across requests.
+// Map iteration order is insertion order, so the first key is the least
+// recently used.
+const sharedEmbeddings = new Map<string, number[]>();
+
+export class EmbeddingCache {
+  private entries: Map<string, number[]>;
+  private maxSize: number;
+
+  constructor(
+    maxSize: number = DEFAULT_EMBEDDING_CACHE_SIZE,
+    entries: Map<string, number[]> = sharedEmbeddings
+  ) {
+    this.maxSize = maxSize;
+    this.entries = entries;
+  }
+
+  async get(model: string, text: string): Promise<number[] | undefined> {
+    if (this.maxSize <= 0) return undefined;
+
+    const key = await this.key(model, text);
+    const embedding = this.entries.get(key);
+    if (embedding) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  async set(model: string, text: string, embedding: number[]): Promise<void> {
+    if (this.maxSize <= 0) return;
+
+    const key = await this.key(model, text);
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+
+  // Hashed so long prompts are not kept in memory twice
+  private key(model: string, text: string): Promise<string> {
+    return sha256Hex(`${model}\n${text}`);
+  }
+}
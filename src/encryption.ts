@@ -0,0 +1,284 @@
+// Encryption at rest: the prompt and response of every entry, and the
+// prompts of its negative examples, are encrypted with AES-GCM before they
+// reach the store. Embeddings and partition fields stay in the clear, so
+// entries remain searchable.
+
+import {
+  CachedEntry,
+  CacheListPage,
+  CacheScope,
+  CacheUsagePage,
+  Env,
+  VectorSearchResult,
+  VectorStore,
+} from "./types";
+
+// Encrypted values are stored as enc:<key id>:<base64 iv>:<base64 ciphertext>
+const PREFIX = "enc:";
+const IV_BYTES = 12;
+
+export interface EncryptionConfig {
+  currentKeyId: string; // Key new values are encrypted with
+  keys: Record<string, string>; // Key id to base64-encoded AES key
+}
+
+/**
+ * Keys from CACHE_ENCRYPTION_KEYS, or null when encryption is not
+ * configured. A misconfiguration throws rather than storing plaintext.
+ */
+export function getEncryptionConfig(env: Env): EncryptionConfig | null {
+  if (!env.CACHE_ENCRYPTION_KEYS) return null;
+
+  let keys: Record<string, string>;
+  try {
+    keys = JSON.parse(env.CACHE_ENCRYPTION_KEYS);
+  } catch (e) {
+    throw new Error(
+      "CACHE_ENCRYPTION_KEYS must be a JSON object of key ids to base64 keys."
+    );
+  }
+  for (const keyId of Object.keys(keys)) {
+    if (keyId.includes(":")) {
+      throw new Error(`Encryption key id ${keyId} may not contain ":".`);
+    }
+  }
+
+  const currentKeyId = env.CACHE_ENCRYPTION_KEY_ID || Object.keys(keys)[0];
+  if (!currentKeyId || !keys[currentKeyId]) {
+    throw new Error(`Unknown CACHE_ENCRYPTION_KEY_ID: ${currentKeyId}`);
+  }
+  return { currentKeyId, keys };
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+// Built up byte by byte: spreading a long response into fromCharCode
+// would exceed the argument limit
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+// Imported keys, shared by every cipher in the isolate
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(material: string): Promise<CryptoKey> {
+  let key = importedKeys.get(material);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      fromBase64(material),
+      "AES-GCM",
+      false,
+      ["encrypt", "decrypt"]
+    );
+    importedKeys.set(material, key);
+  }
+  return key;
+}
+
+// Entry id keys, derived once per key in the isolate
+const idKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * HMAC key for entry ids, derived with HKDF from the current encryption
+ * key. Ids keyed by it cannot be recomputed from a guessed prompt without
+ * the key, as an unkeyed hash can.
+ */
+export function getEntryIdKey(config: EncryptionConfig): Promise<CryptoKey> {
+  const material = config.keys[config.currentKeyId];
+  let key = idKeys.get(material);
+  if (!key) {
+    key = crypto.subtle
+      .importKey("raw", fromBase64(material), "HKDF", false, ["deriveKey"])
+      .then((base) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(0),
+            info: new TextEncoder().encode("entry-id"),
+          },
+          base,
+          { name: "HMAC", hash: "SHA-256" },
+          false,
+          ["sign"]
+        )
+      );
+    idKeys.set(material, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypts and decrypts single values. Each value is bound to the entry id
+ * it belongs to, so ciphertext cannot be moved to another entry.
+ */
+export class EntryCipher {
+  private config: EncryptionConfig;
+
+  constructor(config: EncryptionConfig) {
+    this.config = config;
+  }
+
+  get currentKeyId(): string {
+    return this.config.currentKeyId;
+  }
+
+  async encrypt(value: string, id: string): Promise<string> {
+    const keyId = this.config.currentKeyId;
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+      await importKey(this.config.keys[keyId]),
+      new TextEncoder().encode(value)
+    );
+    return `${PREFIX}${keyId}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a value; values written before encryption was enabled are
+   * returned as they are
+   */
+  async decrypt(value: string, id: string): Promise<string> {
+    if (!isEncrypted(value)) return value;
+
+    const [keyId, iv, ciphertext] = value.slice(PREFIX.length).split(":");
+    const material = this.config.keys[keyId];
+    if (!material) {
+      throw new Error(`Encryption key ${keyId} is not configured.`);
+    }
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: fromBase64(iv),
+        additionalData: new TextEncoder().encode(id),
+      },
+      await importKey(material),
+      fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+/**
+ * Wraps a vector store, encrypting entries on the way in and decrypting
+ * them on the way out. Entries that cannot be decrypted are never served:
+ * get and search skip them, while list returns them still encrypted so
+ * they can be evicted, purged and reported by the re-encryption.
+ */
+export class EncryptedVectorStore implements VectorStore {
+  private inner: VectorStore;
+  private cipher: EntryCipher;
+
+  constructor(inner: VectorStore, cipher: EntryCipher) {
+    this.inner = inner;
+    this.cipher = cipher;
+  }
+
+  async store(id: string, entry: CachedEntry): Promise<void> {
+    await this.inner.store(id, await this.encryptEntry(id, entry));
+  }
+
+  async get(id: string): Promise<CachedEntry | null> {
+    const entry = await this.inner.get(id);
+    return entry ? this.decryptEntry(id, entry) : null;
+  }
+
+  async search(
+    embedding: number[],
+    threshold: number,
+    scope?: CacheScope,
+    limit?: number
+  ): Promise<VectorSearchResult[]> {
+    const results = await this.inner.search(embedding, threshold, scope, limit);
+    const decrypted: VectorSearchResult[] = [];
+    for (const result of results) {
+      const data = await this.decryptEntry(result.id, result.data);
+      if (data) decrypted.push({ ...result, data });
+    }
+    return decrypted;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.inner.delete(id);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    await this.inner.deleteMany(ids);
+  }
+
+  async recordHit(id: string): Promise<void> {
+    await this.inner.recordHit(id);
+  }
+
+  async count(): Promise<number> {
+    return this.inner.count();
+  }
+
+  async list(cursor?: string, limit?: number): Promise<CacheListPage> {
+    const page = await this.inner.list(cursor, limit);
+    const entries = [];
+    for (const { id, data } of page.entries) {
+      entries.push({ id, data: (await this.decryptEntry(id, data)) ?? data });
+    }
+    return { entries, cursor: page.cursor };
+  }
+
+  // The eviction fields are stored in the clear
+  async listUsage(cursor?: string, limit?: number): Promise<CacheUsagePage> {
+    return this.inner.listUsage(cursor, limit);
+  }
+
+  private async encryptEntry(
+    id: string,
+    entry: CachedEntry
+  ): Promise<CachedEntry> {
+    const negatives = [];
+    for (const negative of entry.negatives || []) {
+      negatives.push({
+        ...negative,
+        prompt: await this.cipher.encrypt(negative.prompt, id),
+      });
+    }
+    return {
+      ...entry,
+      prompt: await this.cipher.encrypt(entry.prompt, id),
+      response: await this.cipher.encrypt(entry.response, id),
+      negatives: entry.negatives ? negatives : undefined,
+      encryptionKeyId: this.cipher.currentKeyId,
+    };
+  }
+
+  // Null when the entry is encrypted with a missing key or was tampered with
+  private async decryptEntry(
+    id: string,
+    entry: CachedEntry
+  ): Promise<CachedEntry | null> {
+    try {
+      const negatives = [];
+      for (const negative of entry.negatives || []) {
+        negatives.push({
+          ...negative,
+          prompt: await this.cipher.decrypt(negative.prompt, id),
+        });
+      }
+      return {
+        ...entry,
+        prompt: await this.cipher.decrypt(entry.prompt, id),
+        response: await this.cipher.decrypt(entry.response, id),
+        negatives: entry.negatives ? negatives : undefined,
+      };
+    } catch (e) {
+      console.error(`Failed to decrypt entry ${id}:`, e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,245 @@
+// Feedback on cache hits: wrong matches are counted and either flagged,
+// turned into negative examples or deleted
+
+import { Env } from "./types";
+import { MatchType, PromptCache } from "./cache";
+import { Metrics } from "./metrics";
+import { authenticate } from "./auth";
+import { getProviderName } from "./gateway";
+import { createCalibrationStore } from "./calibration";
+import { sha256Hex } from "./hash";
+import { createRedactor, getRedactionMode } from "./redaction";
+
+const HIT_PREFIX = "hit:";
+const HIT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// What to do with an entry reported as a wrong match
+export type FeedbackAction = "flag" | "negative" | "delete";
+
+const FEEDBACK_ACTIONS: FeedbackAction[] = ["flag", "negative", "delete"];
+
+// A request served from the cache, kept so feedback can find its entry.
+// The prompt itself is not kept: a report that adds a negative example
+// sends it again, and it is checked against the hash.
+export interface HitRecord {
+  entryId: string;
+  promptHash: string; // SHA-256 of the prompt as looked up, i.e. redacted
+  similarity: number;
+  match: MatchType;
+  model: string;
+  namespace: string;
+  tenant: string; // Only the same tenant may report on the request
+  calibrationSampleId?: string; // Sample recorded by the same lookup
+  timestamp: number;
+}
+
+interface FeedbackRequest {
+  request_id?: string;
+  correct?: boolean;
+  action?: FeedbackAction;
+  prompt?: string; // The reported prompt, for a negative example
+}
+
+/**
+ * Hits by request id in KV, expiring after 7 days
+ */
+export class HitLog {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async record(requestId: string, hit: HitRecord): Promise<void> {
+    await this.kv.put(HIT_PREFIX + requestId, JSON.stringify(hit), {
+      expirationTtl: HIT_TTL_SECONDS,
+    });
+  }
+
+  async get(requestId: string): Promise<HitRecord | null> {
+    return this.kv.get<HitRecord>(HIT_PREFIX + requestId, "json");
+  }
+
+  async delete(requestId: string): Promise<void> {
+    await this.kv.delete(HIT_PREFIX + requestId);
+  }
+}
+
+/**
+ * Request ids are returned bare by /chat and as "chatcmpl-<id>" by the
+ * OpenAI-compatible route; either form is accepted
+ */
+function parseRequestId(value: string): string {
+  return value.startsWith("chatcmpl-") ? value.slice(9) : value;
+}
+
+/**
+ * Handle POST /feedback
+ */
+export async function handleFeedback(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  try {
+    // Feedback is authenticated but not rate limited or metered. Only
+    // requests made with a key are logged, so anonymous callers have
+    // nothing to report on.
+    const authentication = await authenticate(request, env);
+    if (!authentication.ok) {
+      return Response.json(
+        { error: authentication.error },
+        {
+          status: authentication.status,
+          headers: { ...corsHeaders, ...authentication.headers },
+        }
+      );
+    }
+    if (!authentication.auth) {
+      return Response.json(
+        { error: "Feedback requires the API key that made the request" },
+        {
+          status: 401,
+          headers: { ...corsHeaders, "WWW-Authenticate": "Bearer" },
+        }
+      );
+    }
+
+    const body: FeedbackRequest = await request.json();
+
+    if (typeof body.request_id !== "string" || !body.request_id) {
+      return Response.json(
+        { error: "Missing required field: request_id" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (body.correct !== undefined && typeof body.correct !== "boolean") {
+      return Response.json(
+        { error: "correct must be a boolean" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (body.action !== undefined && !FEEDBACK_ACTIONS.includes(body.action)) {
+      return Response.json(
+        { error: `action must be one of ${FEEDBACK_ACTIONS.join(", ")}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (body.prompt !== undefined && typeof body.prompt !== "string") {
+      return Response.json(
+        { error: "prompt must be a string" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const requestId = parseRequestId(body.request_id);
+    const hits = new HitLog(env.CACHE_STATS);
+    const hit = await hits.get(requestId);
+
+    // Another tenant's request is reported the same as an unknown one
+    if (!hit || hit.tenant !== authentication.auth.record.tenant) {
+      return Response.json(
+        {
+          error:
+            "No cache hit found for this request_id. Feedback is accepted for cache hits within 7 days.",
+        },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const calibration = createCalibrationStore(env);
+
+    if (body.correct) {
+      if (hit.calibrationSampleId) {
+        await calibration.label(hit.calibrationSampleId, "match");
+      }
+      await hits.delete(requestId);
+      return Response.json(
+        { request_id: requestId, correct: true },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Exact hits have no neighborhood to exclude: the entry's own prompt
+    // got the wrong answer, so it is deleted. A negative example needs the
+    // prompt, so without one the hit is only flagged.
+    let action = body.action || (body.prompt ? "negative" : "flag");
+    if (action === "negative" && hit.match === "exact") {
+      action = "delete";
+    }
+
+    const cache = new PromptCache(env);
+    let negative: { prompt: string; embedding: number[] } | undefined;
+    if (action === "negative") {
+      if (!body.prompt) {
+        return Response.json(
+          { error: "prompt is required to add a negative example" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      // Redacted as it was for the lookup, so it hashes the same
+      const prompt =
+        getRedactionMode(env) === "off"
+          ? body.prompt
+          : createRedactor(env).redact(body.prompt).text;
+      if ((await sha256Hex(prompt)) !== hit.promptHash) {
+        return Response.json(
+          { error: "prompt does not match the prompt of the request" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      negative = { prompt, embedding: await cache.generateEmbedding(prompt) };
+    }
+
+    let entryFound: boolean;
+    if (action === "delete") {
+      entryFound = (await cache.getEntry(hit.entryId)) !== null;
+      await cache.deleteEntry(hit.entryId);
+    } else {
+      entryFound = (await cache.recordFalseHit(hit.entryId, negative)) !== null;
+    }
+
+    if (hit.calibrationSampleId) {
+      await calibration.label(hit.calibrationSampleId, "mismatch");
+    }
+
+    const metrics = new Metrics(env);
+    metrics.recordFalseHit(
+      {
+        model: hit.model,
+        provider: getProviderName(hit.model, env),
+        namespace: hit.namespace,
+      },
+      hit.match
+    );
+    ctx.waitUntil(
+      metrics
+        .flush()
+        .catch((e) => console.error("Failed to record metrics:", e))
+    );
+
+    // Each request can be reported once
+    await hits.delete(requestId);
+
+    return Response.json(
+      {
+        request_id: requestId,
+        correct: false,
+        action,
+        entry_id: hit.entryId,
+        entry_found: entryFound,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error: any) {
+    console.error("Error processing feedback:", error);
+    return Response.json(
+      { error: "Internal server error", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+// Model calls through Cloudflare AI Gateway, dispatched to the adapter for
+// each model's provider
+
+import { Env, ChatMessage, GatewayResult, GatewayStreamEvent } from "./types";
+import {
+  ModelDefinition,
+  ProviderName,
+  getModelRegistry,
+  unknownModelMessage,
+} from "./models";
+import {
+  ProviderAdapter,
+  ProviderCall,
+  ProviderError,
+} from "./providers/common";
+import { WorkersAIProvider } from "./providers/workers-ai";
+import {
+  OpenAIProvider,
+  MistralProvider,
+  GroqProvider,
+} from "./providers/openai";
+import { AnthropicProvider } from "./providers/anthropic";
+import { GoogleProvider } from "./providers/google";
+import { AzureOpenAIProvider } from "./providers/azure-openai";
+import { BedrockProvider } from "./providers/bedrock";
+import { OpenAICompatibleProvider } from "./providers/chat-completions";
+
+export { ProviderError };
+
+const ADAPTERS: Record<ProviderName, new (env: Env) => ProviderAdapter> = {
+  "workers-ai": WorkersAIProvider,
+  openai: OpenAIProvider,
+  anthropic: AnthropicProvider,
+  google: GoogleProvider,
+  mistral: MistralProvider,
+  groq: GroqProvider,
+  "azure-openai": AzureOpenAIProvider,
+  bedrock: BedrockProvider,
+  "openai-compatible": OpenAICompatibleProvider,
+};
+
+export function createProvider(
+  provider: ProviderName,
+  env: Env
+): ProviderAdapter {
+  return new ADAPTERS[provider](env);
+}
+
+// Registered model, or a non-retryable 400 for unknown names
+function resolveModel(model: string, env: Env): ModelDefinition {
+  const definition = getModelRegistry(env).resolve(model);
+  if (!definition) {
+    throw new ProviderError(unknownModelMessage(model), {
+      status: 400,
+      retryable: false,
+    });
+  }
+  return definition;
+}
+
+function providerCall(
+  definition: ModelDefinition,
+  messages: ChatMessage[],
+  maxTokens: number,
+  temperature: number,
+  signal?: AbortSignal
+): ProviderCall {
+  return {
+    upstream: definition.upstream || definition.id,
+    baseUrl: definition.baseUrl,
+    messages,
+    maxTokens,
+    temperature,
+    signal,
+  };
+}
+
+// Provider label for metrics ("unknown" for models no longer registered)
+export function getProviderName(model: string, env: Env): string {
+  return getModelRegistry(env).resolve(model)?.provider || "unknown";
+}
+
+// Rough token estimate (~4 characters per token) for when a provider
+// does not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Embed texts in one request with a Workers AI model, or with
+// "<provider>/<model>" for a provider whose adapter supports embeddings
+// (openai, google)
+export async function embedThroughGateway(
+  model: string,
+  texts: string[],
+  env: Env
+): Promise<number[][]> {
+  const [prefix, ...rest] = model.split("/");
+  if (!(prefix in ADAPTERS)) {
+    return new WorkersAIProvider(env).embed(model, texts);
+  }
+
+  const adapter = createProvider(prefix as ProviderName, env);
+  if (!adapter.embed) {
+    throw new Error(`Embedding models are not supported for: ${model}`);
+  }
+  return adapter.embed(rest.join("/"), texts);
+}
+
+// Helper function to call model through gateway
+export async function callModelGateway(
+  model: string,
+  messages: ChatMessage[],
+  maxTokens: number,
+  temperature: number,
+  env: Env,
+  signal?: AbortSignal
+): Promise<GatewayResult> {
+  const definition = resolveModel(model, env);
+  return createProvider(definition.provider, env).complete(
+    providerCall(definition, messages, maxTokens, temperature, signal)
+  );
+}
+
+// Streaming variant of callModelGateway. The provider request is made
+// before returning, so configuration and HTTP errors are thrown here rather
+// than midway through the stream.
+export async function streamModelGateway(
+  model: string,
+  messages: ChatMessage[],
+  maxTokens: number,
+  temperature: number,
+  env: Env,
+  signal?: AbortSignal
+): Promise<AsyncIterable<GatewayStreamEvent>> {
+  const definition = resolveModel(model, env);
+  return createProvider(definition.provider, env).stream(
+    providerCall(definition, messages, maxTokens, temperature, signal)
+  );
+}
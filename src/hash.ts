@@ -0,0 +1,33 @@
+// Hashing helpers built on WebCrypto
+
+/**
+ * Hex-encoded SHA-256 digest of a string
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return toHex(digest);
+}
+
+/**
+ * Hex-encoded HMAC-SHA-256 of a string
+ */
+export async function hmacSha256Hex(
+  key: CryptoKey,
+  text: string
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(text)
+  );
+  return toHex(signature);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,553 @@
+// Bulk import and export of cache entries as JSONL, one entry per line. An
+// export can be imported as it is, so caches move between environments.
+// Imports are staged in KV and written over several runs, like a
+// re-embedding.
+
+import { CachedEntry, Env } from "./types";
+import {
+  EntryFilter,
+  PromptCache,
+  buildCacheScope,
+  hashContext,
+} from "./cache";
+import { DEFAULT_MAX_TOKENS, DEFAULT_MODEL, DEFAULT_TEMPERATURE } from "./chat";
+import { getModelRegistry, unknownModelMessage } from "./models";
+import { getEmbeddingModel } from "./embeddings";
+import { embeddingModelOf } from "./similarity";
+import { EntryCipher, getEncryptionConfig, isEncrypted } from "./encryption";
+import { Redactor, createRedactor, getRedactionMode } from "./redaction";
+import { createMetaStore } from "./meta-store";
+import { withEntryJobLock } from "./job-lock";
+
+// Progress is kept in KV so a large import resumes across cron invocations
+const STATE_KEY = "import:state";
+
+// Held while an import is staged, so two requests cannot both start one.
+// Expires on its own if the staging request dies.
+const START_LOCK_KEY = "lock:import-start";
+const START_LOCK_SECONDS = 10 * 60;
+const CHUNK_PREFIX = "import:chunk:";
+const STAGED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Validated lines staged per KV value
+const CHUNK_SIZE = 500;
+
+// Entries embedded with one call and written concurrently
+const IMPORT_BATCH_SIZE = 20;
+
+// Entries written per run, which keeps a run well within the Workers
+// subrequest limit: an entry takes up to six store requests
+const IMPORT_ENTRIES_PER_RUN = 100;
+
+// Line errors reported in the state; the rest are only counted
+const MAX_REPORTED_ERRORS = 100;
+
+const EXPORT_PAGE_SIZE = 100;
+
+// One line of an import or export
+export interface EntryRecord {
+  prompt: string;
+  response: string;
+  model?: string; // Defaults to DEFAULT_MODEL; aliases resolve to the model's id
+  namespace?: string; // As stored, i.e. tenant-qualified for tenant keys
+  system?: string; // System prompt the response was given under
+  context_hash?: string; // From an export; takes precedence over `system`
+  max_tokens?: number; // Defaults as on /chat
+  temperature?: number;
+  embedding?: number[]; // Reused instead of embedding the prompt again
+  embedding_model?: string; // Model of `embedding`; assumed to be EMBEDDING_MODEL
+  ttl?: number; // Seconds; defaults to the model's or CACHE_TTL_SECONDS
+  pinned?: boolean;
+}
+
+export interface ImportState {
+  id: string; // Names the staged chunks
+  lines: number; // Read from the body
+  staged: number; // Valid lines, written or waiting to be
+  chunks: number; // Staged chunks
+  chunk: number; // Next chunk to write
+  offset: number; // Next line within it
+  imported: number;
+  failed: number; // Invalid lines and failed writes
+  errors: { line: number; error: string }[]; // The first MAX_REPORTED_ERRORS
+  startedAt: number;
+  finishedAt?: number;
+}
+
+// A validated line, ready to be written
+interface ImportEntry {
+  prompt: string;
+  response: string;
+  model: string;
+  namespace?: string;
+  system?: string;
+  contextHash?: string;
+  maxTokens: number;
+  temperature: number;
+  embedding?: number[];
+  ttl?: number;
+  pinned: boolean;
+}
+
+// An entry waiting in KV, with its line number in the body
+interface StagedLine {
+  line: number;
+  entry: ImportEntry;
+}
+
+function chunkKey(importId: string, chunk: number): string {
+  return `${CHUNK_PREFIX}${importId}:${chunk}`;
+}
+
+function isOptional(value: unknown, type: string): boolean {
+  return value === undefined || typeof value === type;
+}
+
+/**
+ * Check a parsed line and resolve its defaults, throwing an error that
+ * says what is wrong with it
+ */
+function toImportEntry(
+  record: EntryRecord,
+  env: Env,
+  redactor: Redactor | null,
+  refuseSensitive: boolean
+): ImportEntry {
+  if (typeof record !== "object" || record === null) {
+    throw new Error("Each line must be a JSON object");
+  }
+  if (typeof record.prompt !== "string" || !record.prompt) {
+    throw new Error("Missing required field: prompt");
+  }
+  if (typeof record.response !== "string" || !record.response) {
+    throw new Error("Missing required field: response");
+  }
+  if (
+    !isOptional(record.model, "string") ||
+    !isOptional(record.namespace, "string") ||
+    !isOptional(record.system, "string") ||
+    !isOptional(record.context_hash, "string") ||
+    !isOptional(record.embedding_model, "string")
+  ) {
+    throw new Error(
+      "model, namespace, system, context_hash and embedding_model must be strings"
+    );
+  }
+  if (
+    record.max_tokens !== undefined &&
+    (!Number.isInteger(record.max_tokens) || record.max_tokens <= 0)
+  ) {
+    throw new Error("max_tokens must be a positive integer");
+  }
+  if (
+    record.temperature !== undefined &&
+    (typeof record.temperature !== "number" || record.temperature < 0)
+  ) {
+    throw new Error("temperature must be a non-negative number");
+  }
+  if (
+    record.ttl !== undefined &&
+    (typeof record.ttl !== "number" || record.ttl <= 0)
+  ) {
+    throw new Error("ttl must be a positive number of seconds");
+  }
+  if (!isOptional(record.pinned, "boolean")) {
+    throw new Error("pinned must be a boolean");
+  }
+  if (
+    record.embedding !== undefined &&
+    (!Array.isArray(record.embedding) ||
+      !record.embedding.every((value) => Number.isFinite(value)))
+  ) {
+    throw new Error("embedding must be an array of numbers");
+  }
+
+  const model = getModelRegistry(env).resolve(record.model || DEFAULT_MODEL);
+  if (!model) {
+    throw new Error(unknownModelMessage(record.model || DEFAULT_MODEL));
+  }
+
+  // Stored like a live response, so lookups of the redacted prompt find it
+  const redacted = redactor?.redact(record.prompt) ?? null;
+  if (refuseSensitive && redacted?.detected.length) {
+    throw new Error("The prompt contains sensitive data");
+  }
+  const response = redacted
+    ? redactor!.redact(record.response, redacted.values)
+    : null;
+  if (refuseSensitive && response?.detected.length) {
+    throw new Error("The response contains sensitive data");
+  }
+  const prompt = redacted?.text ?? record.prompt;
+
+  // An embedding of the prompt as given is only reusable when redaction
+  // left the prompt alone and it came from the configured model
+  const embedding =
+    prompt === record.prompt &&
+    (record.embedding_model ?? getEmbeddingModel(env)) ===
+      getEmbeddingModel(env)
+      ? record.embedding
+      : undefined;
+
+  return {
+    prompt,
+    response: response?.text ?? record.response,
+    model: model.id,
+    namespace: record.namespace,
+    system: record.system,
+    contextHash: record.context_hash,
+    maxTokens:
+      record.max_tokens ??
+      Math.min(DEFAULT_MAX_TOKENS, model.maxOutputTokens ?? Infinity),
+    temperature: record.temperature ?? DEFAULT_TEMPERATURE,
+    embedding,
+    ttl: record.ttl ?? model.cache?.ttlSeconds,
+    pinned: record.pinned === true,
+  };
+}
+
+async function writeEntry(
+  cache: PromptCache,
+  entry: ImportEntry,
+  embedding: number[]
+): Promise<void> {
+  const contextHash =
+    entry.contextHash ??
+    (await hashContext(
+      entry.system ? [{ role: "system", content: entry.system }] : []
+    ));
+  const scope = buildCacheScope(
+    entry.model,
+    entry.maxTokens,
+    entry.temperature,
+    contextHash,
+    entry.namespace
+  );
+
+  const id = await cache.cacheResponse(
+    entry.prompt,
+    entry.response,
+    entry.model,
+    scope,
+    entry.ttl,
+    embedding
+  );
+  if (entry.pinned) await cache.setPinned(id, true);
+}
+
+/**
+ * Split a stream into lines
+ */
+async function* readLines(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  if (buffer) yield buffer;
+}
+
+function recordError(state: ImportState, line: number, e: unknown) {
+  state.failed++;
+  if (state.errors.length < MAX_REPORTED_ERRORS) {
+    state.errors.push({
+      line,
+      error:
+        e instanceof SyntaxError
+          ? "Invalid JSON"
+          : e instanceof Error
+            ? e.message
+            : String(e),
+    });
+  }
+}
+
+// Staged lines are encrypted like entries when encryption is configured,
+// bound to the chunk's key
+function createChunkCipher(env: Env): EntryCipher | null {
+  const encryption = getEncryptionConfig(env);
+  return encryption ? new EntryCipher(encryption) : null;
+}
+
+async function saveState(env: Env, state: ImportState): Promise<void> {
+  await env.CACHE_STATS.put(STATE_KEY, JSON.stringify(state));
+}
+
+export async function getImportState(env: Env): Promise<ImportState | null> {
+  return env.CACHE_STATS.get<ImportState>(STATE_KEY, "json");
+}
+
+/**
+ * Validate a JSONL stream of entry records and stage the valid lines in KV
+ * for runImport to write. Invalid lines are counted and reported in the
+ * state; blank lines are ignored. Returns null while another import is
+ * being staged or still running.
+ */
+export async function startImport(
+  body: ReadableStream<Uint8Array>,
+  env: Env
+): Promise<ImportState | null> {
+  const store = createMetaStore(env);
+  const token = crypto.randomUUID();
+  if (!(await store.acquire(START_LOCK_KEY, token, START_LOCK_SECONDS))) {
+    return null;
+  }
+
+  try {
+    const running = await getImportState(env);
+    if (running && running.finishedAt === undefined) return null;
+    return await stageImport(body, env);
+  } finally {
+    await store.release(START_LOCK_KEY, token);
+  }
+}
+
+async function stageImport(
+  body: ReadableStream<Uint8Array>,
+  env: Env
+): Promise<ImportState> {
+  const redactionMode = getRedactionMode(env);
+  const redactor = redactionMode === "off" ? null : createRedactor(env);
+  const cipher = createChunkCipher(env);
+  const state: ImportState = {
+    id: crypto.randomUUID(),
+    lines: 0,
+    staged: 0,
+    chunks: 0,
+    chunk: 0,
+    offset: 0,
+    imported: 0,
+    failed: 0,
+    errors: [],
+    startedAt: Date.now(),
+  };
+
+  let chunk: StagedLine[] = [];
+  const stage = async () => {
+    if (chunk.length === 0) return;
+    const key = chunkKey(state.id, state.chunks);
+    const value = JSON.stringify(chunk);
+    await env.CACHE_STATS.put(
+      key,
+      cipher ? await cipher.encrypt(value, key) : value,
+      { expirationTtl: STAGED_TTL_SECONDS }
+    );
+    state.chunks++;
+    chunk = [];
+  };
+
+  for await (const text of readLines(body)) {
+    state.lines++;
+    if (!text.trim()) continue;
+    try {
+      chunk.push({
+        line: state.lines,
+        entry: toImportEntry(
+          JSON.parse(text),
+          env,
+          redactor,
+          redactionMode === "refuse"
+        ),
+      });
+      state.staged++;
+    } catch (e) {
+      recordError(state, state.lines, e);
+      continue;
+    }
+    if (chunk.length >= CHUNK_SIZE) await stage();
+  }
+  await stage();
+
+  if (state.chunks === 0) state.finishedAt = Date.now();
+  await saveState(env, state);
+  return state;
+}
+
+/**
+ * Write up to `maxEntries` staged lines, a batch at a time with one
+ * embedding call per batch, saving progress after every batch, until
+ * `budgetMs` runs out. Waits for the next run while another job rewrites
+ * entries. Returns the state, or null when no import was started.
+ */
+export async function runImport(
+  env: Env,
+  maxEntries: number = IMPORT_ENTRIES_PER_RUN,
+  budgetMs: number = 20_000
+): Promise<ImportState | null> {
+  const saved = await getImportState(env);
+  if (!saved || saved.finishedAt !== undefined) return saved;
+
+  let state: ImportState | null = saved;
+  await withEntryJobLock(env, budgetMs, async () => {
+    // Read again under the lock, as a run that just released it may have
+    // written further
+    state = await getImportState(env);
+    if (state && state.finishedAt === undefined) {
+      await writeStaged(env, state, maxEntries, Date.now() + budgetMs);
+    }
+  });
+  return state;
+}
+
+async function writeStaged(
+  env: Env,
+  state: ImportState,
+  maxEntries: number,
+  deadline: number
+): Promise<void> {
+  const cache = new PromptCache(env);
+  const cipher = createChunkCipher(env);
+  let written = 0;
+
+  while (
+    written < maxEntries &&
+    state.chunk < state.chunks &&
+    Date.now() < deadline
+  ) {
+    const key = chunkKey(state.id, state.chunk);
+    const value = await env.CACHE_STATS.get(key);
+    const lines: StagedLine[] =
+      value === null
+        ? []
+        : JSON.parse(cipher ? await cipher.decrypt(value, key) : value);
+    if (value === null) {
+      console.error(`Import chunk ${key} has expired`);
+    }
+
+    while (
+      written < maxEntries &&
+      state.offset < lines.length &&
+      Date.now() < deadline
+    ) {
+      const size = Math.min(
+        IMPORT_BATCH_SIZE,
+        maxEntries - written,
+        lines.length - state.offset
+      );
+      const batch = lines.slice(state.offset, state.offset + size);
+      await writeBatch(cache, batch, state);
+      state.offset += size;
+      written += size;
+      await saveState(env, state);
+    }
+
+    if (state.offset >= lines.length) {
+      await env.CACHE_STATS.delete(key);
+      state.chunk++;
+      state.offset = 0;
+    }
+  }
+
+  if (state.chunk >= state.chunks) state.finishedAt = Date.now();
+  await saveState(env, state);
+}
+
+/**
+ * Embed the lines that came without a usable embedding with a single call,
+ * then write the batch concurrently
+ */
+async function writeBatch(
+  cache: PromptCache,
+  batch: StagedLine[],
+  state: ImportState
+): Promise<void> {
+  const unembedded = batch.filter(({ entry }) => !entry.embedding);
+  let embeddings: number[][];
+  try {
+    embeddings = await cache.generateEmbeddings(
+      unembedded.map(({ entry }) => entry.prompt)
+    );
+  } catch (e) {
+    console.error("Failed to embed an import batch:", e);
+    for (const { line } of batch) recordError(state, line, e);
+    return;
+  }
+
+  let next = 0;
+  const outcomes = await Promise.allSettled(
+    batch.map(({ entry }) =>
+      writeEntry(cache, entry, entry.embedding ?? embeddings[next++])
+    )
+  );
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      state.imported++;
+    } else {
+      console.error(`Failed to import line ${batch[i].line}:`, outcome.reason);
+      recordError(state, batch[i].line, outcome.reason);
+    }
+  });
+}
+
+function toRecord(entry: CachedEntry): EntryRecord {
+  return {
+    prompt: entry.prompt,
+    response: entry.response,
+    model: entry.model,
+    namespace: entry.namespace,
+    context_hash: entry.contextHash,
+    // Buckets are their own bucket, so the entry keeps its partition
+    max_tokens: entry.maxTokensBucket,
+    temperature: entry.temperatureBucket,
+    embedding: entry.embedding,
+    embedding_model: embeddingModelOf(entry),
+    ttl:
+      entry.expiresAt !== undefined
+        ? Math.max(Math.ceil((entry.expiresAt - Date.now()) / 1000), 1)
+        : undefined,
+    pinned: entry.pinned || undefined,
+  };
+}
+
+/**
+ * Stream the entries matching `filter` as JSONL, one store page at a time.
+ * Entries encrypted with a key that is no longer configured are left out.
+ */
+export function exportEntries(
+  env: Env,
+  filter: EntryFilter
+): ReadableStream<Uint8Array> {
+  const cache = new PromptCache(env);
+  const encoder = new TextEncoder();
+  let cursor: string | undefined;
+
+  // Each pull reads pages until one has something to send, since a pull
+  // that enqueues nothing is not repeated
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        const page = await cache.listEntries(filter, cursor, EXPORT_PAGE_SIZE);
+        cursor = page.cursor;
+
+        let chunk = "";
+        for (const { id, data } of page.entries) {
+          if (isEncrypted(data.prompt) || isEncrypted(data.response)) {
+            console.error(
+              `Not exporting entry ${id}: its key is not configured`
+            );
+            continue;
+          }
+          chunk += JSON.stringify(toRecord(data)) + "\n";
+        }
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+
+        if (cursor === undefined) {
+          controller.close();
+          return;
+        }
+        if (chunk) return;
+      }
+    },
+  });
+}
@@ -1,181 +1,64 @@
 // Main Cloudflare Worker entry point
 
-import { Env, ChatRequest, ChatResponse } from "./types";
-import { PromptCache } from "./cache";
-import OpenAI from "openai";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import Anthropic from "@anthropic-ai/sdk";
-
-// Helper function to determine model type and get API key
-function getModelConfig(
-  model: string,
-  env: Env
-): {
-  isWorkersAI: boolean;
-  provider?: string;
-  apiKey?: string;
-} {
-  // Workers AI models start with @cf
-  if (model.startsWith("@cf/")) {
-    return { isWorkersAI: true };
-  }
-
-  // Determine provider from model prefix
-  if (model.startsWith("anthropic/") || model.startsWith("claude-")) {
-    return {
-      isWorkersAI: false,
-      provider: "anthropic",
-      apiKey: env.ANTHROPIC_API_KEY,
-    };
-  }
-
-  if (model.startsWith("openai/") || model.startsWith("gpt-")) {
-    return {
-      isWorkersAI: false,
-      provider: "openai",
-      apiKey: env.OPENAI_API_KEY,
-    };
-  }
-
-  if (model.startsWith("google/") || model.startsWith("gemini-")) {
-    return {
-      isWorkersAI: false,
-      provider: "google",
-      apiKey: env.GOOGLE_AI_STUDIO_TOKEN,
-    };
-  }
-
-  // Default to Workers AI if no prefix matches
-  return { isWorkersAI: true };
-}
-
-// Helper function to call model through gateway
-async function callModelGateway(
-  model: string,
-  prompt: string,
-  maxTokens: number,
-  temperature: number,
-  env: Env
-): Promise<string> {
-  const config = getModelConfig(model, env);
-
-  // For Workers AI models, use env.AI.run with gateway option
-  if (config.isWorkersAI) {
-    const gatewayConfig = env.GATEWAY_NAME
-      ? {
-          gateway: {
-            id: env.GATEWAY_NAME,
-          },
-        }
-      : {};
-
-    const aiResponse = await env.AI.run(
-      model,
-      {
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: maxTokens,
-        temperature: temperature,
-      },
-      gatewayConfig
-    );
-
-    return (
-      aiResponse.response ||
-      aiResponse.result?.response ||
-      JSON.stringify(aiResponse)
-    );
-  }
-
-  // For external providers, use OpenAI client with gateway endpoint
-  if (!config.apiKey) {
-    throw new Error(`API key not configured for provider: ${config.provider}`);
-  }
-
-  if (!env.GATEWAY_ACCOUNT_ID || !env.GATEWAY_NAME) {
-    throw new Error(
-      "Gateway configuration missing. Set GATEWAY_ACCOUNT_ID and GATEWAY_NAME."
-    );
-  }
-
-  const host = "https://gateway.ai.cloudflare.com";
-
-  // Prepare headers - include gateway authorization if provided
-  const headers: Record<string, string> = {};
-  if (env.CF_GATEWAY_TOKEN) {
-    headers["cf-aig-authorization"] = `Bearer ${env.CF_GATEWAY_TOKEN}`;
-  }
-
-  // Handle Google models - use Google Generative AI SDK
-  if (config.provider === "google") {
-    const endpoint = `/v1/${env.GATEWAY_ACCOUNT_ID}/${env.GATEWAY_NAME}/google-ai-studio`;
-
-    const genAI = new GoogleGenerativeAI(config.apiKey);
-
-    // Extract the actual model name (remove google/ prefix if present)
-    const modelName = model.startsWith("google/") ? model.slice(7) : model;
-
-    const googleModel = genAI.getGenerativeModel(
-      { model: modelName },
-      { baseUrl: host + endpoint, customHeaders: headers }
-    );
-
-    const result = await googleModel.generateContent([prompt]);
-    return result.response.text();
-  }
-
-  // Handle Anthropic models - use Anthropic SDK
-  if (config.provider === "anthropic") {
-    const endpoint = `/v1/${env.GATEWAY_ACCOUNT_ID}/${env.GATEWAY_NAME}/anthropic`;
-
-    const anthropic = new Anthropic({
-      apiKey: config.apiKey,
-      baseURL: host + endpoint,
-      defaultHeaders: headers,
-    });
-
-    // Extract the actual model name (remove anthropic/ prefix if present)
-    const modelName = model.startsWith("anthropic/") ? model.slice(10) : model;
-
-    const message = await anthropic.messages.create({
-      model: modelName,
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: maxTokens,
-    });
-
-    return message.content[0].type === "text" ? message.content[0].text : "";
-  }
-
-  // For OpenAI models, use OpenAI SDK with /compat endpoint
-  const endpoint = `/v1/${env.GATEWAY_ACCOUNT_ID}/${env.GATEWAY_NAME}/compat`;
-
-  const client = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL: host + endpoint,
-    defaultHeaders: headers,
-  });
-
-  // Ensure model name has the provider prefix for gateway routing
-  let modelName = model;
-  if (!modelName.startsWith("openai/")) {
-    modelName = `openai/${modelName}`;
-  }
-
-  const response = await client.chat.completions.create({
-    model: modelName,
-    messages: [{ role: "user", content: prompt }],
-    max_completion_tokens: maxTokens,
-  });
-
-  return response.choices[0]?.message?.content || "";
-}
+import { Env, ChatMessage, ChatRequest, ChatResponse } from "./types";
+import {
+  PromptCache,
+  isValidMaxTokens,
+  isValidNamespace,
+  isValidTemperature,
+  isValidThreshold,
+} from "./cache";
+import {
+  cacheHeaders,
+  completeWithCache,
+  streamWithCache,
+  CompletionParams,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_MODEL,
+  DEFAULT_TEMPERATURE,
+  NotCachedError,
+} from "./chat";
+import {
+  CACHE_MODES,
+  cacheDirectives,
+  isValidCacheMode,
+  isValidMaxAge,
+} from "./cache-control";
+import { sseResponse } from "./streaming";
+import { Metrics } from "./metrics";
+import { handleAdminRequest, isAuthorized } from "./admin";
+import { admitRequest } from "./auth";
+import { ProviderError, estimateTokens } from "./gateway";
+import {
+  checkTokenLimits,
+  getModelRegistry,
+  unknownModelMessage,
+} from "./models";
+import { runReembed } from "./reembed";
+import { runReencrypt } from "./reencrypt";
+import { runImport } from "./import-export";
+import { OPENMETRICS_CONTENT_TYPE, renderOpenMetrics } from "./openmetrics";
+import { handleChatCompletions, handleListModels } from "./openai-compat";
+import { handleFeedback } from "./feedback";
+
+// Entries each background job may write per cron run, and how long it may
+// take. An entry costs up to six subrequests, so the three jobs together
+// stay within the 1000 a paid invocation allows, next to eviction.
+const JOB_ENTRIES_PER_RUN = 50;
+const JOB_BUDGET_MS = 20_000;
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<Response> {
     // CORS headers
     const corsHeaders = {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Methods": "POST, GET, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, Cache-Control",
     };
 
     // Handle CORS preflight
@@ -387,16 +270,44 @@ export default {
         <span class="endpoint-path">/stats</span>
         <span style="color: #888;"> - Cache statistics</span>
       </div>
+      <div class="endpoint-info">
+        <span class="endpoint-method">GET</span>
+        <span class="endpoint-path">/metrics</span>
+        <span style="color: #888;"> - Prometheus/OpenMetrics scrape endpoint</span>
+      </div>
       <div class="endpoint-info">
         <span class="endpoint-method">POST</span>
         <span class="endpoint-path">/chat</span>
         <span style="color: #888;"> - Send prompt (with caching)</span>
       </div>
+      <div class="endpoint-info">
+        <span class="endpoint-method">POST</span>
+        <span class="endpoint-path">/v1/chat/completions</span>
+        <span style="color: #888;"> - OpenAI-compatible chat completions (with caching)</span>
+      </div>
+      <div class="endpoint-info">
+        <span class="endpoint-method">POST</span>
+        <span class="endpoint-path">/feedback</span>
+        <span style="color: #888;"> - Report a wrong cache hit by request_id</span>
+      </div>
+      <div class="endpoint-info">
+        <span class="endpoint-method">GET</span>
+        <span class="endpoint-path">/models</span>
+        <span style="color: #888;"> - List models and their aliases</span>
+      </div>
+      <div class="endpoint-info">
+        <span class="endpoint-method">GET</span>
+        <span class="endpoint-path">/admin/entries</span>
+        <span style="color: #888;"> - Cache administration (admin token)</span>
+      </div>
     </div>
 
     <div class="section">
       <div class="section-title">&gt; CHAT REQUEST</div>
       
+      <label>API KEY</label>
+      <input type="password" id="apiKey" placeholder="pck_... (not needed when ALLOW_ANONYMOUS is on)">
+
       <label>PROMPT</label>
       <textarea id="prompt" placeholder="What is Cloudflare?">What is Cloudflare?</textarea>
 
@@ -459,6 +370,7 @@ export default {
       const model = document.getElementById('model').value;
       const maxTokens = parseInt(document.getElementById('maxTokens').value);
       const temperature = parseFloat(document.getElementById('temperature').value);
+      const apiKey = document.getElementById('apiKey').value;
 
       const responseDiv = document.getElementById('chatResponse');
       const metricsDiv = document.getElementById('chatMetrics');
@@ -477,7 +389,10 @@ export default {
       try {
         const response = await fetch(apiUrl + '/chat', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': 'Bearer ' + apiKey } : {})
+          },
           body: JSON.stringify(requestBody)
         });
 
@@ -620,7 +535,26 @@ export default {
       ).join('\\n');
     }
 
+    // Replace the built-in model list with the configured registry
+    async function loadModels() {
+      try {
+        const response = await fetch(apiUrl + '/models');
+        const data = await response.json();
+        const select = document.getElementById('model');
+        const groups = {};
+        for (const model of data.models) {
+          (groups[model.provider] = groups[model.provider] || []).push(model.id);
+        }
+        select.innerHTML = Object.entries(groups).map(([provider, ids]) =>
+          \`<optgroup label="\${provider}">\${ids.map(id => \`<option value="\${id}">\${id}</option>\`).join('')}</optgroup>\`
+        ).join('');
+      } catch (error) {
+        console.error('Failed to load models:', error);
+      }
+    }
+
     window.onload = function() {
+      loadModels();
       getStats();
     };
   </script>
@@ -635,6 +569,19 @@ export default {
       });
     }
 
+    // Model registry
+    if (url.pathname === "/models" && request.method === "GET") {
+      return Response.json(
+        { models: getModelRegistry(env).listPublic() },
+        { headers: corsHeaders }
+      );
+    }
+
+    // Cache administration API
+    if (url.pathname.startsWith("/admin/")) {
+      return handleAdminRequest(request, env, url, corsHeaders);
+    }
+
     // Health check endpoint
     if (url.pathname === "/health" && request.method === "GET") {
       return Response.json({ status: "ok" }, { headers: corsHeaders });
@@ -646,22 +593,20 @@ export default {
         const cache = new PromptCache(env);
         const stats = await cache.getStats();
 
-        // Get hit/miss stats from KV
-        const hits = (await env.CACHE_STATS.get("hits")) || "0";
-        const misses = (await env.CACHE_STATS.get("misses")) || "0";
+        // Per-day breakdown for the last `days` days (default 7, max 90)
+        const days = Math.min(
+          Math.max(parseInt(url.searchParams.get("days") || "7") || 7, 1),
+          90
+        );
+        // Namespaces name tenants, so their breakdown is under /admin/stats
+        const { byNamespace, ...counters } = await new Metrics(env).getStats(
+          days
+        );
 
         return Response.json(
           {
             cacheSize: stats.size,
-            hits: parseInt(hits),
-            misses: parseInt(misses),
-            hitRate:
-              parseInt(hits) + parseInt(misses) > 0
-                ? (
-                    parseInt(hits) /
-                    (parseInt(hits) + parseInt(misses))
-                  ).toFixed(2)
-                : 0,
+            ...counters,
           },
           { headers: corsHeaders }
         );
@@ -673,9 +618,55 @@ export default {
       }
     }
 
+    // Prometheus/OpenMetrics scrape endpoint
+    if (url.pathname === "/metrics" && request.method === "GET") {
+      if (env.METRICS_TOKEN && !isAuthorized(request, env.METRICS_TOKEN)) {
+        return new Response("Unauthorized\n", {
+          status: 401,
+          headers: { ...corsHeaders, "WWW-Authenticate": "Bearer" },
+        });
+      }
+
+      try {
+        return new Response(await renderOpenMetrics(env), {
+          headers: { ...corsHeaders, "Content-Type": OPENMETRICS_CONTENT_TYPE },
+        });
+      } catch (error: any) {
+        return new Response(`Failed to collect metrics: ${error.message}\n`, {
+          status: 500,
+          headers: corsHeaders,
+        });
+      }
+    }
+
+    // OpenAI-compatible chat completions and model list
+    if (url.pathname === "/v1/chat/completions" && request.method === "POST") {
+      return handleChatCompletions(request, env, ctx, corsHeaders);
+    }
+    if (url.pathname === "/v1/models" && request.method === "GET") {
+      return handleListModels(env, corsHeaders);
+    }
+
+    // Report a wrong cache hit
+    if (url.pathname === "/feedback" && request.method === "POST") {
+      return handleFeedback(request, env, ctx, corsHeaders);
+    }
+
     // Main chat endpoint
     if (url.pathname === "/chat" && request.method === "POST") {
       try {
+        // API key, rate limit and quotas
+        const admission = await admitRequest(request, env, ctx);
+        if (!admission.ok) {
+          return Response.json(
+            { error: admission.error },
+            {
+              status: admission.status,
+              headers: { ...corsHeaders, ...admission.headers },
+            }
+          );
+        }
+
         // Parse request
         const body: ChatRequest = await request.json();
 
@@ -686,62 +677,210 @@ export default {
           );
         }
 
-        const prompt = body.prompt;
-        const model = body.model || "@cf/meta/llama-2-7b-chat-int8";
-        const maxTokens = body.max_tokens || 256;
-        const temperature = body.temperature || 0.7;
+        if (
+          typeof body.prompt !== "string" ||
+          (body.system !== undefined && typeof body.system !== "string")
+        ) {
+          return Response.json(
+            { error: "prompt and system must be strings" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        // Initialize cache
-        const cache = new PromptCache(env);
+        if (!isValidTemperature(body.temperature)) {
+          return Response.json(
+            { error: "temperature must be a number between 0 and 2" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        // Check for cached response
-        const cachedResult = await cache.findSimilarCache(prompt);
+        if (!isValidMaxTokens(body.max_tokens)) {
+          return Response.json(
+            { error: "max_tokens must be a positive integer" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        if (cachedResult) {
-          // Cache hit!
-          console.log(`Cache hit! Similarity: ${cachedResult.similarity}`);
+        if (
+          body.ttl !== undefined &&
+          (typeof body.ttl !== "number" || body.ttl <= 0)
+        ) {
+          return Response.json(
+            { error: "ttl must be a positive number of seconds" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        if (!isValidThreshold(body.similarity_threshold)) {
+          return Response.json(
+            { error: "similarity_threshold must be a number between 0 and 1" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-          // Update hit count
-          const hits = parseInt((await env.CACHE_STATS.get("hits")) || "0");
-          await env.CACHE_STATS.put("hits", (hits + 1).toString());
+        if (
+          body.messages !== undefined &&
+          (!Array.isArray(body.messages) ||
+            !body.messages.every(
+              (m) =>
+                (m.role === "user" || m.role === "assistant") &&
+                typeof m.content === "string"
+            ))
+        ) {
+          return Response.json(
+            {
+              error:
+                "messages must be an array of user/assistant messages with string content",
+            },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-          const response: ChatResponse = {
-            response: cachedResult.entry.response,
-            cached: true,
-            similarity: cachedResult.similarity,
-            timestamp: Date.now(),
-          };
+        if (!isValidNamespace(body.namespace)) {
+          return Response.json(
+            { error: 'namespace must be a string without "/"' },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-          return Response.json(response, { headers: corsHeaders });
+        if (!isValidCacheMode(body.cache_mode)) {
+          return Response.json(
+            { error: `cache_mode must be one of: ${CACHE_MODES.join(", ")}` },
+            { status: 400, headers: corsHeaders }
+          );
         }
 
-        // Cache miss - call model through gateway
-        console.log(`Cache miss - calling model ${model} through gateway`);
+        if (!isValidMaxAge(body.max_age)) {
+          return Response.json(
+            { error: "max_age must be a non-negative number of seconds" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        // Update miss count
-        const misses = parseInt((await env.CACHE_STATS.get("misses")) || "0");
-        await env.CACHE_STATS.put("misses", (misses + 1).toString());
+        // System prompt, earlier turns, then the new user message
+        const messages: ChatMessage[] = [
+          ...(body.system
+            ? [{ role: "system" as const, content: body.system }]
+            : []),
+          ...(body.messages || []),
+          { role: "user", content: body.prompt },
+        ];
+
+        // Aliases resolve to the model's canonical id
+        const model = getModelRegistry(env).resolve(
+          body.model || DEFAULT_MODEL
+        );
+        if (!model) {
+          return Response.json(
+            { error: unknownModelMessage(body.model || DEFAULT_MODEL) },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        const responseText = await callModelGateway(
+        const maxTokens =
+          body.max_tokens ||
+          Math.min(DEFAULT_MAX_TOKENS, model.maxOutputTokens ?? Infinity);
+        const limitError = checkTokenLimits(
           model,
-          prompt,
-          maxTokens,
-          temperature,
-          env
+          estimateTokens(messages.map((m) => m.content).join("")),
+          maxTokens
         );
+        if (limitError) {
+          return Response.json(
+            { error: limitError },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        // Cache the response
-        await cache.cacheResponse(prompt, responseText, model);
+        const params: CompletionParams = {
+          messages,
+          model: model.id,
+          maxTokens,
+          temperature: body.temperature ?? DEFAULT_TEMPERATURE,
+          namespace: body.namespace,
+          allowCrossModel: body.allow_cross_model,
+          ttl: body.ttl,
+          similarityThreshold: body.similarity_threshold,
+          directives: cacheDirectives(
+            request.headers.get("Cache-Control"),
+            body.cache_mode,
+            body.max_age
+          ),
+          auth: admission.auth,
+        };
+
+        if (body.stream) {
+          const stream = await streamWithCache(params, env, ctx);
+          const headers = cacheHeaders(stream, corsHeaders);
+
+          // One {"delta"} event per chunk, then a final {"done": true} event
+          // carrying the same metadata as a non-streamed response
+          return sseResponse(
+            (async function* () {
+              let finishReason = "stop";
+              try {
+                for await (const event of stream.events) {
+                  if (event.finishReason) finishReason = event.finishReason;
+                  if (event.delta) {
+                    yield JSON.stringify({ delta: event.delta });
+                  }
+                }
+              } catch (error: any) {
+                console.error("Error streaming response:", error);
+                yield JSON.stringify({
+                  error: "Stream interrupted",
+                  details: error.message,
+                });
+                return;
+              }
+              yield JSON.stringify({
+                done: true,
+                request_id: stream.requestId,
+                cached: stream.cached,
+                stale: stream.stale,
+                similarity: stream.similarity,
+                match: stream.match,
+                fallback_model: stream.fallbackModel,
+                cache_skipped: stream.cacheSkipped,
+                finish_reason: finishReason,
+                timestamp: Date.now(),
+              });
+            })(),
+            headers
+          );
+        }
+
+        const result = await completeWithCache(params, env, ctx);
 
         const response: ChatResponse = {
-          response: responseText,
-          cached: false,
+          response: result.text,
+          cached: result.cached,
+          stale: result.stale,
+          similarity: result.similarity,
+          match: result.match,
+          fallback_model: result.fallbackModel,
+          cache_skipped: result.cacheSkipped,
+          request_id: result.requestId,
           timestamp: Date.now(),
         };
 
-        return Response.json(response, { headers: corsHeaders });
+        return Response.json(response, {
+          headers: cacheHeaders(result, corsHeaders),
+        });
       } catch (error: any) {
         console.error("Error processing request:", error);
+        if (error instanceof NotCachedError) {
+          return Response.json(
+            { error: "Not cached", details: error.message },
+            { status: 504, headers: corsHeaders }
+          );
+        }
+        if (error instanceof ProviderError) {
+          return Response.json(
+            { error: "Provider unavailable", details: error.message },
+            { status: error.status || 502, headers: corsHeaders }
+          );
+        }
         return Response.json(
           { error: "Internal server error", details: error.message },
           { status: 500, headers: corsHeaders }
@@ -755,4 +894,34 @@ export default {
       { status: 404, headers: corsHeaders }
     );
   },
+
+  // Cron trigger: continue any re-embedding or re-encryption started
+  // through the admin API
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    // One after the other: each job rewrites or deletes entries the
+    // others may have read. They share the invocation's subrequest limit,
+    // so eviction goes first and the others touch a bounded number of
+    // entries per run.
+    ctx.waitUntil(
+      (async () => {
+        await new PromptCache(env)
+          .enforceMaxEntries()
+          .then((evicted) => console.log(`Evicted ${evicted} cache entries`))
+          .catch((e) => console.error("Cache eviction failed:", e));
+        await runReembed(env, JOB_BUDGET_MS, JOB_ENTRIES_PER_RUN).catch((e) =>
+          console.error("Re-embedding failed:", e)
+        );
+        await runReencrypt(env, JOB_BUDGET_MS, JOB_ENTRIES_PER_RUN).catch((e) =>
+          console.error("Re-encryption failed:", e)
+        );
+        await runImport(env, JOB_ENTRIES_PER_RUN, JOB_BUDGET_MS).catch((e) =>
+          console.error("Import failed:", e)
+        );
+      })()
+    );
+  },
 };
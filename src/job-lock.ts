@@ -0,0 +1,35 @@
+// Background jobs that write cached entries (re-embedding, re-encryption
+// and imports) take turns, so none overwrites an entry with a copy read
+// before another changed it
+
+import { Env } from "./types";
+import { createMetaStore } from "./meta-store";
+
+const LOCK_KEY = "lock:entry-jobs";
+
+// Time a job has to finish the page it started before the budget ran out
+const LOCK_MARGIN_SECONDS = 60;
+
+/**
+ * Run `job` while holding the lock shared by the jobs that rewrite
+ * entries. Returns false without running it when another job holds the
+ * lock. The lock expires once `budgetMs` and a margin have passed, so a
+ * crashed job only holds it that long.
+ */
+export async function withEntryJobLock(
+  env: Env,
+  budgetMs: number,
+  job: () => Promise<void>
+): Promise<boolean> {
+  const store = createMetaStore(env);
+  const token = crypto.randomUUID();
+  const ttlSeconds = Math.ceil(budgetMs / 1000) + LOCK_MARGIN_SECONDS;
+  if (!(await store.acquire(LOCK_KEY, token, ttlSeconds))) return false;
+
+  try {
+    await job();
+    return true;
+  } finally {
+    await store.release(LOCK_KEY, token);
+  }
+}
@@ -0,0 +1,156 @@
+// In-memory vector store for unit tests and local development
+
+import {
+  CachedEntry,
+  CacheListPage,
+  CacheScope,
+  CacheUsagePage,
+  VectorSearchResult,
+  VectorStore,
+} from "./types";
+import {
+  cosineSimilarity,
+  isExpired,
+  isSearchableWith,
+  matchesScope,
+} from "./similarity";
+import { DEFAULT_EMBEDDING_MODEL } from "./embeddings";
+
+// Shared by every store in the isolate so entries survive across requests
+const sharedEntries = new Map<string, CachedEntry>();
+
+/**
+ * Drop every entry of the shared store, e.g. between unit tests
+ */
+export function clearInMemoryStore(): void {
+  sharedEntries.clear();
+}
+
+export class InMemoryVectorStore implements VectorStore {
+  private entries: Map<string, CachedEntry>;
+  private embeddingModel: string;
+
+  // Searches only consider entries embedded with `embeddingModel`
+  constructor(
+    embeddingModel: string = DEFAULT_EMBEDDING_MODEL,
+    entries: Map<string, CachedEntry> = sharedEntries
+  ) {
+    this.embeddingModel = embeddingModel;
+    this.entries = entries;
+  }
+
+  /**
+   * Store a prompt with its embedding and response
+   */
+  async store(id: string, entry: CachedEntry): Promise<void> {
+    this.entries.set(id, entry);
+  }
+
+  /**
+   * Fetch a single entry by id
+   */
+  async get(id: string): Promise<CachedEntry | null> {
+    const entry = this.entries.get(id);
+    if (!entry || isExpired(entry)) return null;
+    return entry;
+  }
+
+  /**
+   * Brute-force cosine similarity over every entry in the partition
+   */
+  async search(
+    embedding: number[],
+    threshold: number,
+    scope?: CacheScope,
+    limit: number = 1
+  ): Promise<VectorSearchResult[]> {
+    const results: VectorSearchResult[] = [];
+
+    for (const [id, entry] of this.entries) {
+      if (isExpired(entry)) {
+        this.entries.delete(id);
+        continue;
+      }
+      if (!isSearchableWith(entry, this.embeddingModel)) continue;
+      if (scope && !matchesScope(entry, scope)) continue;
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= threshold) {
+        results.push({ id, score: similarity, data: entry });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Delete a cached entry
+   */
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Delete several entries
+   */
+  async deleteMany(ids: string[]): Promise<void> {
+    for (const id of ids) this.entries.delete(id);
+  }
+
+  /**
+   * Bump the hit count and last-access time used for eviction
+   */
+  async recordHit(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.hits = (entry.hits || 0) + 1;
+    entry.lastAccessed = Date.now();
+  }
+
+  /**
+   * Count cached entries
+   */
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  /**
+   * Page through entries in id order; the cursor is the last id listed, so
+   * entries deleted or moved to another id do not shift the pages, as with
+   * the KV listing
+   */
+  async list(cursor?: string, limit: number = 50): Promise<CacheListPage> {
+    const ids = [...this.entries.keys()]
+      .filter((id) => cursor === undefined || id > cursor)
+      .sort();
+    const page = ids.slice(0, limit);
+
+    return {
+      entries: page.map((id) => ({ id, data: this.entries.get(id)! })),
+      cursor: ids.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+
+  /**
+   * Page through the eviction fields of entries, like list()
+   */
+  async listUsage(
+    cursor?: string,
+    limit: number = 50
+  ): Promise<CacheUsagePage> {
+    const page = await this.list(cursor, limit);
+    return {
+      entries: page.entries.map(({ id, data }) => ({
+        id,
+        usage: {
+          timestamp: data.timestamp,
+          hits: data.hits,
+          lastAccessed: data.lastAccessed,
+          pinned: data.pinned,
+        },
+      })),
+      cursor: page.cursor,
+    };
+  }
+}
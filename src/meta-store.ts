@@ -0,0 +1,255 @@
+// Shared counters and locks, kept in Redis when it is configured and in KV
+// otherwise
+
+import { Env } from "./types";
+import { RedisClient } from "./redis";
+
+// Increments to apply to the fields of one hash
+export interface HashIncrement {
+  key: string;
+  fields: Record<string, number>;
+  ttlSeconds?: number; // Reset the key's TTL after incrementing
+}
+
+export interface MetaStore {
+  hincrby(updates: HashIncrement[]): Promise<void>;
+  hgetall(key: string): Promise<Record<string, number>>;
+  // Increment a counter and reset its TTL, returning the new value
+  incr(key: string, ttlSeconds: number): Promise<number>;
+  // Create a key that expires after `ttlSeconds` unless it already exists,
+  // returning whether it was created
+  setnx(key: string, ttlSeconds: number): Promise<boolean>;
+  exists(key: string): Promise<boolean>;
+  del(key: string): Promise<void>;
+  // Take a lock that expires after `ttlSeconds`, held by `token`, unless
+  // the key already exists. Returns whether the lock was taken.
+  acquire(key: string, token: string, ttlSeconds: number): Promise<boolean>;
+  // Delete a lock, but only while `token` still holds it
+  release(key: string, token: string): Promise<void>;
+}
+
+// Deletes KEYS[1] only if it still holds ARGV[1], in one atomic step
+const RELEASE_SCRIPT =
+  'if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) else return 0 end';
+
+/**
+ * Counters in Redis. Every increment is a single atomic HINCRBY, so
+ * concurrent requests never lose updates.
+ */
+export class RedisMetaStore implements MetaStore {
+  private client: RedisClient;
+
+  constructor(client: RedisClient) {
+    this.client = client;
+  }
+
+  async hincrby(updates: HashIncrement[]): Promise<void> {
+    const commands: string[][] = [];
+    for (const update of updates) {
+      for (const [field, by] of Object.entries(update.fields)) {
+        commands.push([
+          Number.isInteger(by) ? "HINCRBY" : "HINCRBYFLOAT",
+          update.key,
+          field,
+          by.toString(),
+        ]);
+      }
+      if (update.ttlSeconds !== undefined) {
+        commands.push(["EXPIRE", update.key, update.ttlSeconds.toString()]);
+      }
+    }
+    if (commands.length > 0) {
+      await this.client.pipeline(commands);
+    }
+  }
+
+  async hgetall(key: string): Promise<Record<string, number>> {
+    // The REST API returns HGETALL as a flat [field, value, ...] array
+    const reply: string[] = (await this.client.execute(["HGETALL", key])) || [];
+    const result: Record<string, number> = {};
+    for (let i = 0; i + 1 < reply.length; i += 2) {
+      result[reply[i]] = parseFloat(reply[i + 1]);
+    }
+    return result;
+  }
+
+  async incr(key: string, ttlSeconds: number): Promise<number> {
+    const [value] = await this.client.pipeline([
+      ["INCR", key],
+      ["EXPIRE", key, ttlSeconds.toString()],
+    ]);
+    return value;
+  }
+
+  async setnx(key: string, ttlSeconds: number): Promise<boolean> {
+    const reply = await this.client.execute([
+      "SET",
+      key,
+      "1",
+      "NX",
+      "EX",
+      ttlSeconds.toString(),
+    ]);
+    return reply === "OK";
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.client.execute(["EXISTS", key])) === 1;
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.execute(["DEL", key]);
+  }
+
+  async acquire(
+    key: string,
+    token: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const reply = await this.client.execute([
+      "SET",
+      key,
+      token,
+      "NX",
+      "EX",
+      ttlSeconds.toString(),
+    ]);
+    return reply === "OK";
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    await this.client.execute(["EVAL", RELEASE_SCRIPT, "1", key, token]);
+  }
+}
+
+const KV_PREFIX = "meta:";
+
+// KV refuses expirations sooner than a minute away; shorter TTLs are
+// enforced on read from `expiresAt`
+const KV_MIN_TTL_SECONDS = 60;
+
+// A hash as stored in KV
+interface KVHash {
+  fields: Record<string, number>;
+  holder?: string; // Token of a lock's holder
+  expiresAt?: number; // Epoch ms
+}
+
+/**
+ * Counters in KV, for deployments without Redis. KV has no atomic
+ * increment, so concurrent updates of a key may lose increments and
+ * setnx and acquire may let two callers through, and a write takes up to a minute to
+ * reach other locations. Counts are approximate, but shared by every
+ * isolate.
+ */
+export class KVMetaStore implements MetaStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async hincrby(updates: HashIncrement[]): Promise<void> {
+    await Promise.all(
+      updates.map(async (update) => {
+        const hash = (await this.read(update.key)) || { fields: {} };
+        for (const [field, by] of Object.entries(update.fields)) {
+          hash.fields[field] = (hash.fields[field] || 0) + by;
+        }
+        if (update.ttlSeconds !== undefined) {
+          hash.expiresAt = Date.now() + update.ttlSeconds * 1000;
+        }
+        await this.write(update.key, hash);
+      })
+    );
+  }
+
+  async hgetall(key: string): Promise<Record<string, number>> {
+    return (await this.read(key))?.fields || {};
+  }
+
+  async incr(key: string, ttlSeconds: number): Promise<number> {
+    const hash = (await this.read(key)) || { fields: {} };
+    hash.fields.value = (hash.fields.value || 0) + 1;
+    hash.expiresAt = Date.now() + ttlSeconds * 1000;
+    await this.write(key, hash);
+    return hash.fields.value;
+  }
+
+  async setnx(key: string, ttlSeconds: number): Promise<boolean> {
+    if (await this.read(key)) return false;
+    await this.write(key, {
+      fields: { value: 1 },
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    return true;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.read(key)) !== null;
+  }
+
+  async del(key: string): Promise<void> {
+    await this.kv.delete(KV_PREFIX + key);
+  }
+
+  async acquire(
+    key: string,
+    token: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    if (await this.read(key)) return false;
+    await this.write(key, {
+      fields: {},
+      holder: token,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    return true;
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    if ((await this.read(key))?.holder === token) await this.del(key);
+  }
+
+  private async read(key: string): Promise<KVHash | null> {
+    const hash = await this.kv.get<KVHash>(KV_PREFIX + key, "json");
+    if (
+      !hash ||
+      (hash.expiresAt !== undefined && hash.expiresAt <= Date.now())
+    ) {
+      return null;
+    }
+    return hash;
+  }
+
+  private async write(key: string, hash: KVHash): Promise<void> {
+    await this.kv.put(KV_PREFIX + key, JSON.stringify(hash), {
+      expirationTtl:
+        hash.expiresAt !== undefined
+          ? Math.max(
+              Math.ceil((hash.expiresAt - Date.now()) / 1000),
+              KV_MIN_TTL_SECONDS
+            )
+          : undefined,
+    });
+  }
+}
+
+/**
+ * Whether counters are kept in Redis, so increments are atomic and every
+ * location sees them at once
+ */
+export function hasAtomicCounters(env: Env): boolean {
+  return Boolean(env.REDIS_URL && env.REDIS_TOKEN);
+}
+
+/**
+ * Use Redis when it is configured, for atomic counters, and the stats KV
+ * namespace otherwise. Either way counters are shared by every isolate.
+ */
+export function createMetaStore(env: Env): MetaStore {
+  if (env.REDIS_URL && env.REDIS_TOKEN) {
+    return new RedisMetaStore(new RedisClient(env.REDIS_URL, env.REDIS_TOKEN));
+  }
+  return new KVMetaStore(env.CACHE_STATS);
+}
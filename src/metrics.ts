@@ -0,0 +1,444 @@
+// Hit/miss counters, latency histograms and savings estimates
+
+import { Env } from "./types";
+import { HashIncrement, MetaStore, createMetaStore } from "./meta-store";
+import { ModelRegistry, getModelRegistry } from "./models";
+import { DEFAULT_NAMESPACE } from "./cache";
+
+// Upper bounds (ms) of the latency histogram buckets
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Upper bounds of the similarity score histogram buckets
+export const SIMILARITY_BUCKETS = [
+  0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.95, 0.98, 1,
+];
+
+const TOTAL_KEY = "stats:total";
+const DAY_KEY_PREFIX = "stats:day:";
+const DAY_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export type CachePath = "hit" | "miss";
+
+// Label of the namespaces not listed in METRICS_NAMESPACES. Clients choose
+// namespaces freely, so each one counted by name would add fields to the
+// counters without bound.
+export const OTHER_NAMESPACE = "other";
+
+// Counters broken down by model, provider and namespace
+const OUTCOMES = ["hits", "misses", "false_hits"] as const;
+type Outcome = (typeof OUTCOMES)[number];
+
+export interface MetricLabels {
+  model: string;
+  provider: string;
+  namespace: string;
+}
+
+export interface HitMissCounts {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  falseHits: number; // Hits reported as wrong matches through /feedback
+  falseHitRate: number; // Share of hits reported as wrong
+}
+
+// Cumulative histogram: each bucket counts observations <= le
+export interface Histogram {
+  count: number;
+  sum: number;
+  buckets: { le: number | "+Inf"; count: number }[];
+}
+
+export interface StatsSnapshot extends HitMissCounts {
+  byModel: Record<string, HitMissCounts>;
+  byProvider: Record<string, HitMissCounts>;
+  byNamespace: Record<string, HitMissCounts>;
+  byDay: Record<string, HitMissCounts>;
+  falseHitsByMatch: Record<"exact" | "semantic", number>;
+  writeSkipsByReason: Record<string, number>; // Responses the write policy kept out
+  latency: Record<CachePath, Histogram>; // Milliseconds
+  tokensSaved: number;
+  estimatedCostSaved: number; // USD, for models with pricing in the registry
+}
+
+export interface DetailedMetrics {
+  byModel: Record<
+    string,
+    {
+      hits: number;
+      misses: number;
+      falseHits: number;
+      providerErrors: number;
+      providerLatency: Histogram; // Milliseconds
+    }
+  >;
+  similarity: Histogram;
+  embeddingLatency: Histogram; // Milliseconds
+  writeSkips: Record<string, number>; // By reason
+}
+
+/**
+ * UTC date (YYYY-MM-DD) used for the per-day breakdown
+ */
+function dayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function withHitRate(
+  hits: number,
+  misses: number,
+  falseHits: number = 0
+): HitMissCounts {
+  return {
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    falseHits,
+    falseHitRate: hits > 0 ? falseHits / hits : 0,
+  };
+}
+
+/**
+ * Index of the histogram bucket an observation falls into
+ */
+function bucketIndex(bounds: number[], value: number): number {
+  const index = bounds.findIndex((le) => value <= le);
+  return index === -1 ? bounds.length : index;
+}
+
+export class Metrics {
+  private store: MetaStore;
+  private models: ModelRegistry;
+  private namespaces: Set<string>;
+  private pending: HashIncrement[] = [];
+
+  constructor(env: Env) {
+    this.store = createMetaStore(env);
+    this.models = getModelRegistry(env);
+    this.namespaces = new Set([
+      DEFAULT_NAMESPACE,
+      ...(env.METRICS_NAMESPACES || "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ]);
+  }
+
+  /**
+   * Count a cache hit along with the tokens and cost it saved
+   */
+  recordHit(
+    labels: MetricLabels,
+    latencyMs: number,
+    saved: { promptTokens: number; completionTokens: number }
+  ): void {
+    const pricing = this.models.resolve(labels.model)?.pricing || {};
+    const costSaved =
+      (saved.promptTokens * (pricing.input_per_million || 0) +
+        saved.completionTokens * (pricing.output_per_million || 0)) /
+      1_000_000;
+
+    this.pending.push(
+      {
+        key: TOTAL_KEY,
+        fields: {
+          ...this.outcomeFields("hits", labels),
+          ...this.histogramFields("latency:hit", LATENCY_BUCKETS_MS, latencyMs),
+          tokens_saved: saved.promptTokens + saved.completionTokens,
+          ...(costSaved > 0 ? { cost_saved: costSaved } : {}),
+        },
+      },
+      {
+        key: DAY_KEY_PREFIX + dayKey(Date.now()),
+        fields: { hits: 1 },
+        ttlSeconds: DAY_TTL_SECONDS,
+      }
+    );
+  }
+
+  /**
+   * Count a cache miss. Its latency is observed separately once the
+   * provider has answered.
+   */
+  recordMiss(labels: MetricLabels): void {
+    this.pending.push(
+      { key: TOTAL_KEY, fields: this.outcomeFields("misses", labels) },
+      {
+        key: DAY_KEY_PREFIX + dayKey(Date.now()),
+        fields: { misses: 1 },
+        ttlSeconds: DAY_TTL_SECONDS,
+      }
+    );
+  }
+
+  /**
+   * Count a hit reported as a wrong match. It is attributed to the day of
+   * the report, not of the hit.
+   */
+  recordFalseHit(labels: MetricLabels, match: "exact" | "semantic"): void {
+    this.pending.push(
+      {
+        key: TOTAL_KEY,
+        fields: {
+          ...this.outcomeFields("false_hits", labels),
+          [`false_hits:match:${match}`]: 1,
+        },
+      },
+      {
+        key: DAY_KEY_PREFIX + dayKey(Date.now()),
+        fields: { false_hits: 1 },
+        ttlSeconds: DAY_TTL_SECONDS,
+      }
+    );
+  }
+
+  /**
+   * Count a fresh response the write policy kept out of the cache
+   */
+  recordWriteSkip(reason: string): void {
+    this.pending.push({
+      key: TOTAL_KEY,
+      fields: { [`write_skips:reason:${reason}`]: 1 },
+    });
+  }
+
+  /**
+   * Observe the end-to-end latency of a request on the hit or miss path
+   */
+  observeLatency(path: CachePath, latencyMs: number): void {
+    this.pending.push({
+      key: TOTAL_KEY,
+      fields: this.histogramFields(
+        `latency:${path}`,
+        LATENCY_BUCKETS_MS,
+        latencyMs
+      ),
+    });
+  }
+
+  /**
+   * Observe the similarity of the best candidate found by a lookup,
+   * whether or not it cleared the threshold
+   */
+  observeSimilarity(similarity: number): void {
+    this.pending.push({
+      key: TOTAL_KEY,
+      fields: this.histogramFields(
+        "similarity",
+        SIMILARITY_BUCKETS,
+        similarity
+      ),
+    });
+  }
+
+  /**
+   * Observe how long an embedding call took
+   */
+  observeEmbeddingLatency(latencyMs: number): void {
+    this.pending.push({
+      key: TOTAL_KEY,
+      fields: this.histogramFields(
+        "embedding_latency",
+        LATENCY_BUCKETS_MS,
+        latencyMs
+      ),
+    });
+  }
+
+  /**
+   * Observe a provider call, counting it as an error if it failed
+   */
+  observeProviderCall(model: string, latencyMs: number, failed: boolean) {
+    this.pending.push({
+      key: TOTAL_KEY,
+      fields: {
+        ...this.histogramFields(
+          "provider_latency",
+          LATENCY_BUCKETS_MS,
+          latencyMs,
+          `:model:${model}`
+        ),
+        ...(failed ? { [`provider_errors:model:${model}`]: 1 } : {}),
+      },
+    });
+  }
+
+  /**
+   * Write everything recorded so far in a single round trip
+   */
+  async flush(): Promise<void> {
+    const updates = this.pending;
+    this.pending = [];
+    await this.store.hincrby(updates);
+  }
+
+  /**
+   * Read every counter, with the per-day breakdown for the last `days` days
+   */
+  async getStats(days: number = 7): Promise<StatsSnapshot> {
+    const now = Date.now();
+    const dayNames = Array.from({ length: days }, (_, i) =>
+      dayKey(now - i * 24 * 60 * 60 * 1000)
+    );
+    const [total, ...dayCounters] = await Promise.all([
+      this.store.hgetall(TOTAL_KEY),
+      ...dayNames.map((day) => this.store.hgetall(DAY_KEY_PREFIX + day)),
+    ]);
+
+    const byDay: Record<string, HitMissCounts> = {};
+    dayNames.forEach((day, i) => {
+      byDay[day] = withHitRate(
+        dayCounters[i].hits || 0,
+        dayCounters[i].misses || 0,
+        dayCounters[i].false_hits || 0
+      );
+    });
+
+    return {
+      ...withHitRate(total.hits || 0, total.misses || 0, total.false_hits || 0),
+      byModel: this.breakdown(total, "model"),
+      byProvider: this.breakdown(total, "provider"),
+      byNamespace: this.breakdown(total, "namespace"),
+      byDay,
+      falseHitsByMatch: {
+        exact: total["false_hits:match:exact"] || 0,
+        semantic: total["false_hits:match:semantic"] || 0,
+      },
+      writeSkipsByReason: this.writeSkips(total),
+      latency: {
+        hit: this.histogram(total, "latency:hit", LATENCY_BUCKETS_MS),
+        miss: this.histogram(total, "latency:miss", LATENCY_BUCKETS_MS),
+      },
+      tokensSaved: total.tokens_saved || 0,
+      estimatedCostSaved: total.cost_saved || 0,
+    };
+  }
+
+  /**
+   * Counters and histograms broken down by model, for the /metrics export
+   */
+  async getDetailedMetrics(): Promise<DetailedMetrics> {
+    const total = await this.store.hgetall(TOTAL_KEY);
+
+    // Models seen in any per-model field
+    const models = new Set<string>();
+    for (const field of Object.keys(total)) {
+      const index = field.indexOf(":model:");
+      if (index !== -1) models.add(field.slice(index + 7));
+    }
+
+    const byModel: DetailedMetrics["byModel"] = {};
+    for (const model of models) {
+      byModel[model] = {
+        hits: total[`hits:model:${model}`] || 0,
+        misses: total[`misses:model:${model}`] || 0,
+        falseHits: total[`false_hits:model:${model}`] || 0,
+        providerErrors: total[`provider_errors:model:${model}`] || 0,
+        providerLatency: this.histogram(
+          total,
+          "provider_latency",
+          LATENCY_BUCKETS_MS,
+          `:model:${model}`
+        ),
+      };
+    }
+
+    return {
+      byModel,
+      similarity: this.histogram(total, "similarity", SIMILARITY_BUCKETS),
+      embeddingLatency: this.histogram(
+        total,
+        "embedding_latency",
+        LATENCY_BUCKETS_MS
+      ),
+      writeSkips: this.writeSkips(total),
+    };
+  }
+
+  private writeSkips(total: Record<string, number>): Record<string, number> {
+    const prefix = "write_skips:reason:";
+    const skips: Record<string, number> = {};
+    for (const [field, value] of Object.entries(total)) {
+      if (field.startsWith(prefix)) skips[field.slice(prefix.length)] = value;
+    }
+    return skips;
+  }
+
+  private outcomeFields(
+    outcome: Outcome,
+    labels: MetricLabels
+  ): Record<string, number> {
+    return {
+      [outcome]: 1,
+      [`${outcome}:model:${labels.model}`]: 1,
+      [`${outcome}:provider:${labels.provider}`]: 1,
+      [`${outcome}:namespace:${this.namespaceLabel(labels.namespace)}`]: 1,
+    };
+  }
+
+  private namespaceLabel(namespace: string): string {
+    return this.namespaces.has(namespace) ? namespace : OTHER_NAMESPACE;
+  }
+
+  /**
+   * Fields for one histogram observation. The suffix carries labels and is
+   * kept last so label values may contain ":".
+   */
+  private histogramFields(
+    name: string,
+    bounds: number[],
+    value: number,
+    suffix: string = ""
+  ): Record<string, number> {
+    return {
+      [`${name}:bucket:${bucketIndex(bounds, value)}${suffix}`]: 1,
+      [`${name}:count${suffix}`]: 1,
+      [`${name}:sum${suffix}`]: value,
+    };
+  }
+
+  /**
+   * Collect "hits:<dimension>:<value>", "misses:..." and "false_hits:..."
+   * fields by value
+   */
+  private breakdown(
+    total: Record<string, number>,
+    dimension: string
+  ): Record<string, HitMissCounts> {
+    const counts: Record<string, Record<Outcome, number>> = {};
+    for (const [field, value] of Object.entries(total)) {
+      for (const outcome of OUTCOMES) {
+        const prefix = `${outcome}:${dimension}:`;
+        if (field.startsWith(prefix)) {
+          const key = field.slice(prefix.length);
+          counts[key] = counts[key] || { hits: 0, misses: 0, false_hits: 0 };
+          counts[key][outcome] += value;
+        }
+      }
+    }
+
+    const result: Record<string, HitMissCounts> = {};
+    for (const [key, c] of Object.entries(counts)) {
+      result[key] = withHitRate(c.hits, c.misses, c.false_hits);
+    }
+    return result;
+  }
+
+  private histogram(
+    total: Record<string, number>,
+    name: string,
+    bounds: number[],
+    suffix: string = ""
+  ): Histogram {
+    let cumulative = 0;
+    const les: (number | "+Inf")[] = [...bounds, "+Inf"];
+    return {
+      count: total[`${name}:count${suffix}`] || 0,
+      sum: total[`${name}:sum${suffix}`] || 0,
+      buckets: les.map((le, i) => {
+        cumulative += total[`${name}:bucket:${i}${suffix}`] || 0;
+        return { le, count: cumulative };
+      }),
+    };
+  }
+}
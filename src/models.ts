@@ -0,0 +1,234 @@
+// Model registry: the provider and upstream name of each model, with its
+// token limits, pricing and caching policy
+
+import { Env } from "./types";
+
+export type ProviderName =
+  | "workers-ai"
+  | "openai"
+  | "anthropic"
+  | "google"
+  | "mistral"
+  | "groq"
+  | "azure-openai"
+  | "bedrock"
+  | "openai-compatible";
+
+export const PROVIDERS: ProviderName[] = [
+  "workers-ai",
+  "openai",
+  "anthropic",
+  "google",
+  "mistral",
+  "groq",
+  "azure-openai",
+  "bedrock",
+  "openai-compatible",
+];
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+  input_per_million?: number;
+  output_per_million?: number;
+}
+
+export interface ModelCachePolicy {
+  enabled?: boolean; // false neither reads nor writes the cache
+  ttlSeconds?: number; // Entry lifetime, overrides CACHE_TTL_SECONDS
+  similarityThreshold?: number; // Below per-namespace and per-request overrides
+}
+
+export interface ModelDefinition {
+  id: string; // Canonical name, used for cache partitions and metrics
+  provider: ProviderName;
+  upstream?: string; // Name sent to the provider; defaults to the id
+  baseUrl?: string; // openai-compatible only, e.g. "http://vllm.internal:8000/v1"
+  aliases?: string[]; // Other names requests may use
+  contextWindow?: number; // Prompt and completion tokens
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  cache?: ModelCachePolicy;
+}
+
+// What clients may see of a model. Upstream names, base URLs, pricing and
+// cache policy describe the deployment and are only listed to admins.
+export type PublicModel = Pick<
+  ModelDefinition,
+  "id" | "provider" | "aliases" | "contextWindow" | "maxOutputTokens"
+>;
+
+// Models available without configuration. MODELS entries with the same id
+// replace these.
+export const BUILTIN_MODELS: ModelDefinition[] = [
+  { id: "@cf/meta/llama-3.1-8b-instruct", provider: "workers-ai" },
+  { id: "@cf/meta/llama-2-7b-chat-int8", provider: "workers-ai" },
+  { id: "gpt-5-mini", provider: "openai", aliases: ["openai/gpt-5-mini"] },
+  { id: "gpt-5-nano", provider: "openai", aliases: ["openai/gpt-5-nano"] },
+  { id: "gpt-5-pro", provider: "openai", aliases: ["openai/gpt-5-pro"] },
+  {
+    id: "claude-sonnet-4-5-20250929",
+    provider: "anthropic",
+    aliases: ["anthropic/claude-sonnet-4-5-20250929", "claude-sonnet-4-5"],
+  },
+  {
+    id: "claude-haiku-4-5-20251001",
+    provider: "anthropic",
+    aliases: ["anthropic/claude-haiku-4-5-20251001", "claude-haiku-4-5"],
+  },
+  {
+    id: "claude-opus-4-1-20250805",
+    provider: "anthropic",
+    aliases: ["anthropic/claude-opus-4-1-20250805", "claude-opus-4-1"],
+  },
+  {
+    id: "gemini-1.5-flash",
+    provider: "google",
+    aliases: ["google/gemini-1.5-flash"],
+  },
+  {
+    id: "gemini-1.5-pro",
+    provider: "google",
+    aliases: ["google/gemini-1.5-pro"],
+  },
+  {
+    id: "mistral-large-latest",
+    provider: "mistral",
+    aliases: ["mistral/mistral-large-latest"],
+  },
+  {
+    id: "llama-3.3-70b-versatile",
+    provider: "groq",
+    aliases: ["groq/llama-3.3-70b-versatile"],
+  },
+];
+
+function isValidDefinition(definition: any): definition is ModelDefinition {
+  return (
+    typeof definition?.id === "string" &&
+    PROVIDERS.includes(definition.provider) &&
+    (definition.aliases === undefined ||
+      (Array.isArray(definition.aliases) &&
+        definition.aliases.every((a: unknown) => typeof a === "string")))
+  );
+}
+
+/**
+ * Models by id and alias
+ */
+export class ModelRegistry {
+  private models: ModelDefinition[];
+  private names = new Map<string, ModelDefinition>();
+
+  constructor(definitions: ModelDefinition[]) {
+    this.models = definitions;
+    // Ids take precedence over aliases of other models
+    for (const definition of definitions) {
+      for (const alias of definition.aliases || []) {
+        this.names.set(alias, definition);
+      }
+    }
+    for (const definition of definitions) {
+      this.names.set(definition.id, definition);
+    }
+  }
+
+  /**
+   * Definition for a model id or alias, or null when it is unknown
+   */
+  resolve(name: string): ModelDefinition | null {
+    return this.names.get(name) ?? null;
+  }
+
+  list(): ModelDefinition[] {
+    return this.models;
+  }
+
+  /**
+   * Every model with only the fields clients may see
+   */
+  listPublic(): PublicModel[] {
+    return this.models.map((model) => ({
+      id: model.id,
+      provider: model.provider,
+      aliases: model.aliases,
+      contextWindow: model.contextWindow,
+      maxOutputTokens: model.maxOutputTokens,
+    }));
+  }
+}
+
+// Parsed per isolate, and again only when the configuration changes
+let loaded: { source: string; registry: ModelRegistry } | undefined;
+
+/**
+ * Built-in models overlaid with the MODELS env var. Prices from the older
+ * MODEL_PRICING map still apply to models without their own.
+ */
+export function getModelRegistry(env: Env): ModelRegistry {
+  const source = `${env.MODELS || ""}\n${env.MODEL_PRICING || ""}`;
+  if (loaded?.source === source) return loaded.registry;
+
+  const byId = new Map(BUILTIN_MODELS.map((m) => [m.id, m]));
+  try {
+    const configured = env.MODELS ? JSON.parse(env.MODELS) : [];
+    for (const definition of configured) {
+      if (isValidDefinition(definition)) {
+        byId.set(definition.id, definition);
+      } else {
+        console.error("Ignoring invalid MODELS entry:", definition);
+      }
+    }
+  } catch (e) {
+    console.error("Ignoring invalid MODELS:", e);
+  }
+
+  let registry = new ModelRegistry([...byId.values()]);
+  try {
+    const pricing: Record<string, ModelPricing> = env.MODEL_PRICING
+      ? JSON.parse(env.MODEL_PRICING)
+      : {};
+    for (const [name, prices] of Object.entries(pricing)) {
+      const definition = registry.resolve(name);
+      if (definition && !definition.pricing) {
+        byId.set(definition.id, { ...definition, pricing: prices });
+      }
+    }
+    registry = new ModelRegistry([...byId.values()]);
+  } catch (e) {
+    console.error("Ignoring invalid MODEL_PRICING:", e);
+  }
+
+  loaded = { source, registry };
+  return registry;
+}
+
+/**
+ * Error message when a request does not fit the model's token limits, or
+ * null when it does
+ */
+export function checkTokenLimits(
+  definition: ModelDefinition,
+  promptTokens: number,
+  maxTokens: number
+): string | null {
+  if (
+    definition.maxOutputTokens !== undefined &&
+    maxTokens > definition.maxOutputTokens
+  ) {
+    return `max_tokens exceeds the ${definition.maxOutputTokens} output tokens ${definition.id} allows`;
+  }
+  if (
+    definition.contextWindow !== undefined &&
+    promptTokens + maxTokens > definition.contextWindow
+  ) {
+    return `The prompt (about ${promptTokens} tokens) and max_tokens exceed the ${definition.contextWindow}-token context window of ${definition.id}`;
+  }
+  return null;
+}
+
+/**
+ * Message for requests naming a model that is not in the registry
+ */
+export function unknownModelMessage(model: string): string {
+  return `Unknown model: ${model}. GET /models lists the available models.`;
+}
@@ -0,0 +1,348 @@
+// OpenAI-compatible /v1/chat/completions route in front of the cache
+
+import { Env, ChatMessage } from "./types";
+import {
+  cacheHeaders,
+  completeWithCache,
+  streamWithCache,
+  CompletionParams,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_MODEL,
+  NotCachedError,
+} from "./chat";
+import {
+  CACHE_MODES,
+  CacheMode,
+  cacheDirectives,
+  isValidCacheMode,
+  isValidMaxAge,
+} from "./cache-control";
+import { sseResponse } from "./streaming";
+import { admitRequest } from "./auth";
+import { ProviderError, estimateTokens } from "./gateway";
+import {
+  checkTokenLimits,
+  getModelRegistry,
+  unknownModelMessage,
+} from "./models";
+import {
+  isValidMaxTokens,
+  isValidNamespace,
+  isValidTemperature,
+  isValidThreshold,
+} from "./cache";
+
+// Subset of the OpenAI chat completions request we understand
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: {
+    role: string;
+    content: string | { type: string; text?: string }[] | null;
+  }[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+  namespace?: string; // Non-standard: cache partition, like /chat
+  similarity_threshold?: number; // Non-standard, like /chat
+  cache_mode?: CacheMode; // Non-standard, like /chat
+  max_age?: number; // Non-standard, like /chat
+}
+
+/**
+ * Error body in the shape OpenAI SDKs parse
+ */
+function openAIError(
+  message: string,
+  status: number,
+  corsHeaders: Record<string, string>,
+  type: string = "invalid_request_error"
+): Response {
+  return Response.json(
+    { error: { message, type, param: null, code: null } },
+    { status, headers: corsHeaders }
+  );
+}
+
+/**
+ * Normalize request messages, flattening text content parts.
+ * Returns null when a message has an unsupported role or content that is
+ * neither a string nor an array of parts.
+ */
+function toChatMessages(
+  messages: NonNullable<ChatCompletionRequest["messages"]>
+): ChatMessage[] | null {
+  const result: ChatMessage[] = [];
+  for (const message of messages) {
+    // "developer" is the newer name for the system role
+    const role = message.role === "developer" ? "system" : message.role;
+    if (role !== "system" && role !== "user" && role !== "assistant") {
+      return null;
+    }
+    if (
+      message.content !== null &&
+      message.content !== undefined &&
+      typeof message.content !== "string" &&
+      !(
+        Array.isArray(message.content) &&
+        message.content.every(
+          (part) =>
+            typeof part === "object" &&
+            part !== null &&
+            (part.type !== "text" ||
+              part.text === undefined ||
+              typeof part.text === "string")
+        )
+      )
+    ) {
+      return null;
+    }
+
+    const content = Array.isArray(message.content)
+      ? message.content
+          .filter((part) => part.type === "text")
+          .map((part) => part.text || "")
+          .join("")
+      : message.content || "";
+    result.push({ role, content });
+  }
+  return result;
+}
+
+/**
+ * Handle GET /v1/models: the model registry in OpenAI's list format
+ */
+export function handleListModels(
+  env: Env,
+  corsHeaders: Record<string, string>
+): Response {
+  return Response.json(
+    {
+      object: "list",
+      data: getModelRegistry(env)
+        .list()
+        .map((model) => ({
+          id: model.id,
+          object: "model",
+          created: 0,
+          owned_by: model.provider,
+        })),
+    },
+    { headers: corsHeaders }
+  );
+}
+
+/**
+ * Handle POST /v1/chat/completions
+ */
+export async function handleChatCompletions(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  try {
+    const admission = await admitRequest(request, env, ctx);
+    if (!admission.ok) {
+      return openAIError(
+        admission.error,
+        admission.status,
+        { ...corsHeaders, ...admission.headers },
+        admission.status === 429
+          ? "rate_limit_error"
+          : admission.status === 503
+            ? "api_error"
+            : "invalid_request_error"
+      );
+    }
+
+    const body: ChatCompletionRequest = await request.json();
+
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return openAIError(
+        "messages must be a non-empty array",
+        400,
+        corsHeaders
+      );
+    }
+
+    const messages = toChatMessages(body.messages);
+    if (!messages) {
+      return openAIError(
+        "messages may only use the system, developer, user and assistant roles, with string or text part content",
+        400,
+        corsHeaders
+      );
+    }
+
+    if (!isValidNamespace(body.namespace)) {
+      return openAIError(
+        'namespace must be a string without "/"',
+        400,
+        corsHeaders
+      );
+    }
+
+    if (!isValidThreshold(body.similarity_threshold)) {
+      return openAIError(
+        "similarity_threshold must be a number between 0 and 1",
+        400,
+        corsHeaders
+      );
+    }
+
+    if (!isValidCacheMode(body.cache_mode)) {
+      return openAIError(
+        `cache_mode must be one of: ${CACHE_MODES.join(", ")}`,
+        400,
+        corsHeaders
+      );
+    }
+
+    if (!isValidMaxAge(body.max_age)) {
+      return openAIError(
+        "max_age must be a non-negative number of seconds",
+        400,
+        corsHeaders
+      );
+    }
+
+    if (!isValidTemperature(body.temperature)) {
+      return openAIError(
+        "temperature must be a number between 0 and 2",
+        400,
+        corsHeaders
+      );
+    }
+
+    if (
+      !isValidMaxTokens(body.max_tokens) ||
+      !isValidMaxTokens(body.max_completion_tokens)
+    ) {
+      return openAIError(
+        "max_tokens and max_completion_tokens must be positive integers",
+        400,
+        corsHeaders
+      );
+    }
+
+    // Responses name the model as requested, aliases included
+    const model = body.model || DEFAULT_MODEL;
+    const definition = getModelRegistry(env).resolve(model);
+    if (!definition) {
+      return openAIError(unknownModelMessage(model), 400, corsHeaders);
+    }
+
+    const maxTokens =
+      body.max_completion_tokens ||
+      body.max_tokens ||
+      Math.min(DEFAULT_MAX_TOKENS, definition.maxOutputTokens ?? Infinity);
+    const limitError = checkTokenLimits(
+      definition,
+      estimateTokens(messages.map((m) => m.content).join("")),
+      maxTokens
+    );
+    if (limitError) {
+      return openAIError(limitError, 400, corsHeaders);
+    }
+
+    const params: CompletionParams = {
+      messages,
+      model: definition.id,
+      maxTokens,
+      // OpenAI's default temperature
+      temperature: body.temperature ?? 1,
+      namespace: body.namespace,
+      similarityThreshold: body.similarity_threshold,
+      directives: cacheDirectives(
+        request.headers.get("Cache-Control"),
+        body.cache_mode,
+        body.max_age
+      ),
+      auth: admission.auth,
+    };
+    const created = Math.floor(Date.now() / 1000);
+
+    if (body.stream) {
+      const stream = await streamWithCache(params, env, ctx);
+      const id = `chatcmpl-${stream.requestId}`;
+      const chunk = (delta: object, finishReason: string | null) =>
+        JSON.stringify({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model: stream.fallbackModel || model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        });
+
+      return sseResponse(
+        (async function* () {
+          let finishReason = "stop";
+          yield chunk({ role: "assistant", content: "" }, null);
+          try {
+            for await (const event of stream.events) {
+              if (event.finishReason) finishReason = event.finishReason;
+              if (event.delta) {
+                yield chunk({ content: event.delta }, null);
+              }
+            }
+          } catch (error: any) {
+            console.error("Error streaming chat completion:", error);
+            yield JSON.stringify({
+              error: {
+                message: error.message,
+                type: "server_error",
+                param: null,
+                code: null,
+              },
+            });
+            return;
+          }
+          yield chunk({}, finishReason);
+          yield "[DONE]";
+        })(),
+        cacheHeaders(stream, corsHeaders)
+      );
+    }
+
+    const result = await completeWithCache(params, env, ctx);
+
+    return Response.json(
+      {
+        // Accepted by POST /feedback as the request id
+        id: `chatcmpl-${result.requestId}`,
+        object: "chat.completion",
+        created,
+        model: result.fallbackModel || model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: result.text },
+            finish_reason: result.finishReason,
+          },
+        ],
+        usage: {
+          prompt_tokens: result.usage.promptTokens,
+          completion_tokens: result.usage.completionTokens,
+          total_tokens:
+            result.usage.promptTokens + result.usage.completionTokens,
+        },
+      },
+      { headers: cacheHeaders(result, corsHeaders) }
+    );
+  } catch (error: any) {
+    console.error("Error processing chat completion:", error);
+    if (error instanceof NotCachedError) {
+      return openAIError(error.message, 504, corsHeaders, "cache_miss");
+    }
+    if (error instanceof ProviderError) {
+      return openAIError(
+        error.message,
+        error.status || 502,
+        corsHeaders,
+        "api_error"
+      );
+    }
+    return openAIError(error.message, 500, corsHeaders, "server_error");
+  }
+}
@@ -0,0 +1,161 @@
+// OpenMetrics text exposition of the cache and provider metrics
+
+import { Env } from "./types";
+import { PromptCache } from "./cache";
+import { Histogram, Metrics } from "./metrics";
+import { getProviderName } from "./gateway";
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  return `${name}${formatLabels(labels)} ${value}`;
+}
+
+function family(name: string, type: string, help: string): string[] {
+  return [`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`];
+}
+
+/**
+ * Bucket, count and sum samples of a histogram. `scale` converts the
+ * stored unit (e.g. milliseconds to seconds).
+ */
+function histogramSamples(
+  name: string,
+  labels: Labels,
+  histogram: Histogram,
+  scale: number = 1
+): string[] {
+  return [
+    ...histogram.buckets.map((bucket) =>
+      sample(
+        `${name}_bucket`,
+        {
+          ...labels,
+          le: bucket.le === "+Inf" ? "+Inf" : String(bucket.le * scale),
+        },
+        bucket.count
+      )
+    ),
+    sample(`${name}_count`, labels, histogram.count),
+    sample(`${name}_sum`, labels, histogram.sum * scale),
+  ];
+}
+
+/**
+ * Render every metric as an OpenMetrics exposition
+ */
+export async function renderOpenMetrics(env: Env): Promise<string> {
+  const [metrics, stats] = await Promise.all([
+    new Metrics(env).getDetailedMetrics(),
+    new PromptCache(env).getStats(),
+  ]);
+
+  const models = Object.entries(metrics.byModel).map(([model, counts]) => ({
+    labels: { model, provider: getProviderName(model, env) },
+    counts,
+  }));
+
+  const lines = [
+    ...family("prompt_cache_entries", "gauge", "Entries in the cache."),
+    sample("prompt_cache_entries", {}, stats.size),
+
+    ...family("prompt_cache_hits", "counter", "Requests served from cache."),
+    ...models.map(({ labels, counts }) =>
+      sample("prompt_cache_hits_total", labels, counts.hits)
+    ),
+
+    ...family(
+      "prompt_cache_misses",
+      "counter",
+      "Requests forwarded to a provider."
+    ),
+    ...models.map(({ labels, counts }) =>
+      sample("prompt_cache_misses_total", labels, counts.misses)
+    ),
+
+    ...family(
+      "prompt_cache_false_hits",
+      "counter",
+      "Cache hits reported as wrong matches."
+    ),
+    ...models.map(({ labels, counts }) =>
+      sample("prompt_cache_false_hits_total", labels, counts.falseHits)
+    ),
+
+    ...family(
+      "prompt_cache_write_skips",
+      "counter",
+      "Fresh responses the write policy kept out of the cache."
+    ),
+    ...Object.entries(metrics.writeSkips).map(([reason, count]) =>
+      sample("prompt_cache_write_skips_total", { reason }, count)
+    ),
+
+    ...family(
+      "prompt_cache_similarity",
+      "histogram",
+      "Similarity of the nearest cached prompt per lookup."
+    ),
+    ...histogramSamples("prompt_cache_similarity", {}, metrics.similarity),
+
+    ...family(
+      "prompt_cache_embedding_latency_seconds",
+      "histogram",
+      "Embedding generation latency."
+    ),
+    ...histogramSamples(
+      "prompt_cache_embedding_latency_seconds",
+      {},
+      metrics.embeddingLatency,
+      0.001
+    ),
+
+    ...family(
+      "prompt_cache_provider_latency_seconds",
+      "histogram",
+      "Provider call latency, until the response or stream completes."
+    ),
+    ...models.flatMap(({ labels, counts }) =>
+      histogramSamples(
+        "prompt_cache_provider_latency_seconds",
+        labels,
+        counts.providerLatency,
+        0.001
+      )
+    ),
+
+    ...family(
+      "prompt_cache_provider_errors",
+      "counter",
+      "Failed provider calls."
+    ),
+    ...models.map(({ labels, counts }) =>
+      sample(
+        "prompt_cache_provider_errors_total",
+        labels,
+        counts.providerErrors
+      )
+    ),
+
+    "# EOF",
+  ];
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,92 @@
+// Anthropic models, through the gateway's anthropic endpoint
+
+import Anthropic from "@anthropic-ai/sdk";
+import { Env, GatewayResult, GatewayStreamEvent } from "../types";
+import {
+  ProviderAdapter,
+  ProviderCall,
+  SDK_CLIENT_OPTIONS,
+  gatewaySetup,
+  splitSystemPrompt,
+} from "./common";
+
+export class AnthropicProvider implements ProviderAdapter {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  async complete(call: ProviderCall): Promise<GatewayResult> {
+    const { anthropic, body } = this.request(call);
+    const message = await anthropic.messages.create(body, {
+      signal: call.signal,
+    });
+
+    return {
+      text: message.content[0].type === "text" ? message.content[0].text : "",
+      finishReason: message.stop_reason === "max_tokens" ? "length" : "stop",
+      usage: {
+        promptTokens: message.usage.input_tokens,
+        completionTokens: message.usage.output_tokens,
+      },
+    };
+  }
+
+  async stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>> {
+    const { anthropic, body } = this.request(call);
+    const stream = await anthropic.messages.create(
+      { ...body, stream: true },
+      { signal: call.signal }
+    );
+
+    return (async function* () {
+      for await (const event of stream) {
+        if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta"
+        ) {
+          yield { delta: event.delta.text };
+        } else if (event.type === "message_delta" && event.delta.stop_reason) {
+          yield {
+            delta: "",
+            finishReason:
+              event.delta.stop_reason === "max_tokens" ? "length" : "stop",
+          };
+        }
+      }
+    })();
+  }
+
+  // Client and request body (system prompt as a top-level parameter)
+  private request(call: ProviderCall) {
+    const setup = gatewaySetup(
+      "anthropic",
+      this.env.ANTHROPIC_API_KEY,
+      this.env,
+      "anthropic"
+    );
+
+    const anthropic = new Anthropic({
+      ...SDK_CLIENT_OPTIONS,
+      apiKey: setup.apiKey,
+      baseURL: setup.baseUrl,
+      defaultHeaders: setup.headers,
+    });
+
+    const { system, conversation } = splitSystemPrompt(call.messages);
+
+    return {
+      anthropic,
+      body: {
+        model: call.upstream,
+        system,
+        messages: conversation.map((m) => ({
+          role: m.role as "user" | "assistant",
+          content: m.content,
+        })),
+        max_tokens: call.maxTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,54 @@
+// Azure OpenAI deployments, through the gateway's azure-openai endpoint
+
+import OpenAI from "openai";
+import {
+  ProviderCall,
+  ProviderError,
+  SDK_CLIENT_OPTIONS,
+  gatewaySetup,
+} from "./common";
+import {
+  ChatCompletionsConnection,
+  ChatCompletionsProvider,
+} from "./chat-completions";
+
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/**
+ * A model's upstream name is its deployment in the AZURE_OPENAI_RESOURCE
+ * resource
+ */
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  protected reasoningParams = true;
+
+  protected connect(call: ProviderCall): ChatCompletionsConnection {
+    const resource = this.env.AZURE_OPENAI_RESOURCE;
+    if (!resource) {
+      throw new ProviderError(
+        "Azure OpenAI resource not configured. Set AZURE_OPENAI_RESOURCE.",
+        { retryable: false }
+      );
+    }
+
+    const setup = gatewaySetup(
+      "azure-openai",
+      this.env.AZURE_OPENAI_API_KEY,
+      this.env,
+      `azure-openai/${resource}/${call.upstream}`
+    );
+
+    return {
+      client: new OpenAI({
+        ...SDK_CLIENT_OPTIONS,
+        apiKey: setup.apiKey,
+        baseURL: setup.baseUrl,
+        defaultHeaders: { ...setup.headers, "api-key": setup.apiKey },
+        defaultQuery: {
+          "api-version":
+            this.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+        },
+      }),
+      model: call.upstream,
+    };
+  }
+}
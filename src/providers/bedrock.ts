@@ -0,0 +1,216 @@
+// AWS Bedrock models, through the gateway's aws-bedrock endpoint. Requests
+// use the Converse API and are signed with SigV4 for the Bedrock host; the
+// gateway forwards the signature unchanged.
+
+import { Env, GatewayResult, GatewayStreamEvent } from "../types";
+import { sha256Hex } from "../hash";
+import {
+  ProviderAdapter,
+  ProviderCall,
+  ProviderError,
+  gatewaySetup,
+  isRetryableStatus,
+  splitSystemPrompt,
+} from "./common";
+
+export const DEFAULT_AWS_REGION = "us-east-1";
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string) {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+// RFC 3986 encoding, as SigV4 requires
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+}
+
+/**
+ * SigV4 headers for a POST of `body` to `host` + `path`. `path` is already
+ * URI-encoded; the canonical URI encodes it again, as it does for every
+ * service but S3.
+ */
+async function signAwsRequest(
+  credentials: AwsCredentials,
+  service: string,
+  host: string,
+  path: string,
+  body: string
+): Promise<Record<string, string>> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    host,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    "POST",
+    path.split("/").map(encodeRfc3986).join("/"),
+    "",
+    names.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    await sha256Hex(body),
+  ].join("\n");
+
+  const scope = `${date}/${credentials.region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let key = await hmac(
+    encoder.encode(`AWS4${credentials.secretAccessKey}`),
+    date
+  );
+  for (const part of [credentials.region, service, "aws4_request"]) {
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  // fetch sets the host header itself
+  const { host: _, ...sent } = headers;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export class BedrockProvider implements ProviderAdapter {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  async complete(call: ProviderCall): Promise<GatewayResult> {
+    const result: any = await this.converse(call);
+    const usage = result.usage;
+
+    return {
+      text: (result.output?.message?.content || [])
+        .map((block: any) => block.text || "")
+        .join(""),
+      finishReason: result.stopReason === "max_tokens" ? "length" : "stop",
+      usage: usage
+        ? {
+            promptTokens: usage.inputTokens,
+            completionTokens: usage.outputTokens,
+          }
+        : undefined,
+    };
+  }
+
+  // ConverseStream replies in AWS's binary event stream encoding, so the
+  // response is fetched whole and delivered as a single event
+  async stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>> {
+    const result = await this.complete(call);
+    return (async function* () {
+      yield { delta: result.text, finishReason: result.finishReason };
+    })();
+  }
+
+  private async converse(call: ProviderCall): Promise<unknown> {
+    const credentials = this.credentials();
+    const setup = gatewaySetup(
+      "bedrock",
+      credentials.accessKeyId,
+      this.env,
+      `aws-bedrock/bedrock-runtime/${credentials.region}`
+    );
+
+    const { system, conversation } = splitSystemPrompt(call.messages);
+    const body = JSON.stringify({
+      messages: conversation.map((m) => ({
+        role: m.role,
+        content: [{ text: m.content }],
+      })),
+      system: system ? [{ text: system }] : undefined,
+      inferenceConfig: {
+        maxTokens: call.maxTokens,
+        temperature: call.temperature,
+      },
+    });
+
+    // Model ids contain ":", which must be encoded in the path
+    const path = `/model/${encodeURIComponent(call.upstream)}/converse`;
+    const signed = await signAwsRequest(
+      credentials,
+      "bedrock",
+      `bedrock-runtime.${credentials.region}.amazonaws.com`,
+      path,
+      body
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(setup.baseUrl + path, {
+        method: "POST",
+        headers: { ...setup.headers, ...signed },
+        body,
+        signal: call.signal,
+      });
+    } catch (e: any) {
+      // No response, e.g. a dropped connection
+      throw new ProviderError(`Bedrock request failed: ${e.message}`);
+    }
+    if (!response.ok) {
+      throw new ProviderError(
+        `Bedrock request failed (${response.status}): ${await response.text()}`,
+        {
+          status: response.status,
+          retryable: isRetryableStatus(response.status),
+        }
+      );
+    }
+    return response.json();
+  }
+
+  private credentials(): AwsCredentials {
+    if (!this.env.AWS_ACCESS_KEY_ID || !this.env.AWS_SECRET_ACCESS_KEY) {
+      throw new ProviderError(
+        "AWS credentials not configured for provider: bedrock. Set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.",
+        { retryable: false }
+      );
+    }
+    return {
+      accessKeyId: this.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: this.env.AWS_SECRET_ACCESS_KEY,
+      sessionToken: this.env.AWS_SESSION_TOKEN,
+      region: this.env.AWS_REGION || DEFAULT_AWS_REGION,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+// Providers that speak OpenAI's chat completions API, and the adapter for
+// self-hosted OpenAI-compatible servers (vLLM, Ollama, ...)
+
+import OpenAI from "openai";
+import { Env, GatewayResult, GatewayStreamEvent } from "../types";
+import {
+  ProviderAdapter,
+  ProviderCall,
+  ProviderError,
+  SDK_CLIENT_OPTIONS,
+} from "./common";
+
+// A client and the model name to send it
+export interface ChatCompletionsConnection {
+  client: OpenAI;
+  model: string;
+}
+
+/**
+ * Chat completions through an OpenAI client. Subclasses say where the
+ * client points and how the model is named there.
+ */
+export abstract class ChatCompletionsProvider implements ProviderAdapter {
+  protected env: Env;
+  // OpenAI's reasoning models take max_completion_tokens and reject a
+  // non-default temperature; other servers take max_tokens and temperature
+  protected reasoningParams = false;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  protected abstract connect(call: ProviderCall): ChatCompletionsConnection;
+
+  async complete(call: ProviderCall): Promise<GatewayResult> {
+    const { client, model } = this.connect(call);
+
+    const response = await client.chat.completions.create(
+      { model, messages: call.messages, ...this.limits(call) },
+      { signal: call.signal }
+    );
+
+    return {
+      text: response.choices[0]?.message?.content || "",
+      finishReason:
+        response.choices[0]?.finish_reason === "length" ? "length" : "stop",
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>> {
+    const { client, model } = this.connect(call);
+    const stream = await client.chat.completions.create(
+      { model, messages: call.messages, ...this.limits(call), stream: true },
+      { signal: call.signal }
+    );
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+        yield {
+          delta: choice.delta?.content || "",
+          finishReason: choice.finish_reason
+            ? choice.finish_reason === "length"
+              ? "length"
+              : "stop"
+            : undefined,
+        };
+      }
+    })();
+  }
+
+  private limits(call: ProviderCall) {
+    return this.reasoningParams
+      ? { max_completion_tokens: call.maxTokens }
+      : { max_tokens: call.maxTokens, temperature: call.temperature };
+  }
+}
+
+/**
+ * A server exposing OpenAI's API at the model's `baseUrl` (or
+ * OPENAI_COMPATIBLE_BASE_URL), called directly rather than through the AI
+ * Gateway
+ */
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  protected connect(call: ProviderCall): ChatCompletionsConnection {
+    const baseURL = call.baseUrl || this.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new ProviderError(
+        "Base URL not configured for provider: openai-compatible. Set the model's baseUrl or OPENAI_COMPATIBLE_BASE_URL.",
+        { retryable: false }
+      );
+    }
+
+    return {
+      client: new OpenAI({
+        ...SDK_CLIENT_OPTIONS,
+        baseURL,
+        // The SDK requires a key; servers without authentication ignore it
+        apiKey: this.env.OPENAI_COMPATIBLE_API_KEY || "unused",
+      }),
+      model: call.upstream,
+    };
+  }
+}
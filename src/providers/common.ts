@@ -0,0 +1,111 @@
+// Provider adapter interface and helpers shared by the adapters
+
+import { APIConnectionError as OpenAIConnectionError } from "openai";
+import { APIConnectionError as AnthropicConnectionError } from "@anthropic-ai/sdk";
+import { Env, ChatMessage, GatewayResult, GatewayStreamEvent } from "../types";
+
+// One chat completion request, addressed to a provider's own model name
+export interface ProviderCall {
+  upstream: string;
+  baseUrl?: string; // openai-compatible servers only
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal; // Aborted when the attempt times out
+}
+
+// SDK clients make a single attempt: callWithResilience does the retrying
+// and times each attempt out through the call's signal
+export const SDK_CLIENT_OPTIONS = { maxRetries: 0 };
+
+export interface ProviderAdapter {
+  complete(call: ProviderCall): Promise<GatewayResult>;
+  // The provider request is made before returning, so configuration and
+  // HTTP errors are thrown here rather than midway through the stream
+  stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>>;
+  // Embeds every text with a single request
+  embed?(upstream: string, texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * A provider call that failed, timed out or could not be made. `retryable`
+ * is false for errors another attempt would repeat, such as missing
+ * configuration.
+ */
+export class ProviderError extends Error {
+  status?: number;
+  retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.retryable = options.retryable ?? true;
+  }
+}
+
+// Timeouts, conflicts, rate limits and server errors
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+// An SDK request that never got a response, e.g. a dropped connection
+export function isConnectionError(error: unknown): boolean {
+  return (
+    error instanceof OpenAIConnectionError ||
+    error instanceof AnthropicConnectionError
+  );
+}
+
+// Check the gateway configuration for an external provider and build the
+// base URL and headers for one of its gateway paths
+export function gatewaySetup(
+  provider: string,
+  apiKey: string | undefined,
+  env: Env,
+  path: string
+): { apiKey: string; baseUrl: string; headers: Record<string, string> } {
+  if (!apiKey) {
+    throw new ProviderError(
+      `API key not configured for provider: ${provider}`,
+      { retryable: false }
+    );
+  }
+
+  if (!env.GATEWAY_ACCOUNT_ID || !env.GATEWAY_NAME) {
+    throw new ProviderError(
+      "Gateway configuration missing. Set GATEWAY_ACCOUNT_ID and GATEWAY_NAME.",
+      { retryable: false }
+    );
+  }
+
+  const host = "https://gateway.ai.cloudflare.com";
+  const endpoint = `/v1/${env.GATEWAY_ACCOUNT_ID}/${env.GATEWAY_NAME}/${path}`;
+
+  // Prepare headers - include gateway authorization if provided
+  const headers: Record<string, string> = {};
+  if (env.CF_GATEWAY_TOKEN) {
+    headers["cf-aig-authorization"] = `Bearer ${env.CF_GATEWAY_TOKEN}`;
+  }
+
+  return { apiKey, baseUrl: host + endpoint, headers };
+}
+
+// Join the system messages into a single instruction, for providers that
+// take it separately from the conversation
+export function splitSystemPrompt(messages: ChatMessage[]): {
+  system?: string;
+  conversation: ChatMessage[];
+} {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  return {
+    system: system || undefined,
+    conversation: messages.filter((m) => m.role !== "system"),
+  };
+}
@@ -0,0 +1,104 @@
+// Google models, through the gateway's google-ai-studio endpoint
+
+import { GoogleGenerativeAI, ModelParams } from "@google/generative-ai";
+import { Env, GatewayResult, GatewayStreamEvent } from "../types";
+import {
+  ProviderAdapter,
+  ProviderCall,
+  gatewaySetup,
+  splitSystemPrompt,
+} from "./common";
+
+export class GoogleProvider implements ProviderAdapter {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  async complete(call: ProviderCall): Promise<GatewayResult> {
+    const { googleModel, contents } = this.request(call);
+
+    const result = await googleModel.generateContent(
+      { contents },
+      { signal: call.signal }
+    );
+    const usage = result.response.usageMetadata;
+
+    return {
+      text: result.response.text(),
+      finishReason:
+        result.response.candidates?.[0]?.finishReason === "MAX_TOKENS"
+          ? "length"
+          : "stop",
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount,
+            completionTokens: usage.candidatesTokenCount,
+          }
+        : undefined,
+    };
+  }
+
+  async stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>> {
+    const { googleModel, contents } = this.request(call);
+    const result = await googleModel.generateContentStream(
+      { contents },
+      { signal: call.signal }
+    );
+
+    return (async function* () {
+      for await (const chunk of result.stream) {
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        yield {
+          delta: chunk.text(),
+          finishReason:
+            finishReason === "MAX_TOKENS"
+              ? "length"
+              : finishReason
+                ? "stop"
+                : undefined,
+        };
+      }
+    })();
+  }
+
+  async embed(upstream: string, texts: string[]): Promise<number[][]> {
+    const result = await this.model({ model: upstream }).batchEmbedContents({
+      requests: texts.map((text) => ({
+        content: { role: "user", parts: [{ text }] },
+      })),
+    });
+    return result.embeddings.map((embedding) => embedding.values);
+  }
+
+  // Model with the conversation converted to Gemini's format (separate
+  // system instruction, assistant turns called "model")
+  private request(call: ProviderCall) {
+    const { system, conversation } = splitSystemPrompt(call.messages);
+
+    return {
+      googleModel: this.model({
+        model: call.upstream,
+        systemInstruction: system,
+      }),
+      contents: conversation.map((m) => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [{ text: m.content }],
+      })),
+    };
+  }
+
+  private model(params: ModelParams) {
+    const setup = gatewaySetup(
+      "google",
+      this.env.GOOGLE_AI_STUDIO_TOKEN,
+      this.env,
+      "google-ai-studio"
+    );
+    return new GoogleGenerativeAI(setup.apiKey).getGenerativeModel(params, {
+      baseUrl: setup.baseUrl,
+      customHeaders: setup.headers,
+    });
+  }
+}
@@ -0,0 +1,86 @@
+// OpenAI, Mistral and Groq models, through the gateway's /compat endpoint
+
+import OpenAI from "openai";
+import { Env } from "../types";
+import { ProviderCall, SDK_CLIENT_OPTIONS, gatewaySetup } from "./common";
+import {
+  ChatCompletionsConnection,
+  ChatCompletionsProvider,
+} from "./chat-completions";
+
+// The compat endpoint routes on a provider prefix, e.g. "mistral/<model>"
+function compatConnection(
+  provider: string,
+  apiKey: string | undefined,
+  env: Env,
+  upstream: string
+): ChatCompletionsConnection {
+  const setup = gatewaySetup(provider, apiKey, env, "compat");
+  return {
+    client: new OpenAI({
+      ...SDK_CLIENT_OPTIONS,
+      apiKey: setup.apiKey,
+      baseURL: setup.baseUrl,
+      defaultHeaders: setup.headers,
+    }),
+    model: `${provider}/${upstream}`,
+  };
+}
+
+export class OpenAIProvider extends ChatCompletionsProvider {
+  protected reasoningParams = true;
+
+  protected connect(call: ProviderCall): ChatCompletionsConnection {
+    return compatConnection(
+      "openai",
+      this.env.OPENAI_API_KEY,
+      this.env,
+      call.upstream
+    );
+  }
+
+  // Embeddings are not served by /compat, so use the openai endpoint
+  async embed(upstream: string, texts: string[]): Promise<number[][]> {
+    const setup = gatewaySetup(
+      "openai",
+      this.env.OPENAI_API_KEY,
+      this.env,
+      "openai"
+    );
+    const client = new OpenAI({
+      ...SDK_CLIENT_OPTIONS,
+      apiKey: setup.apiKey,
+      baseURL: setup.baseUrl,
+      defaultHeaders: setup.headers,
+    });
+    const response = await client.embeddings.create({
+      model: upstream,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+export class MistralProvider extends ChatCompletionsProvider {
+  protected connect(call: ProviderCall): ChatCompletionsConnection {
+    return compatConnection(
+      "mistral",
+      this.env.MISTRAL_API_KEY,
+      this.env,
+      call.upstream
+    );
+  }
+}
+
+export class GroqProvider extends ChatCompletionsProvider {
+  protected connect(call: ProviderCall): ChatCompletionsConnection {
+    return compatConnection(
+      "groq",
+      this.env.GROQ_API_KEY,
+      this.env,
+      call.upstream
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// Workers AI models, through the AI binding
+
+import { Env, GatewayResult, GatewayStreamEvent } from "../types";
+import { parseSSE } from "../streaming";
+import { ProviderAdapter, ProviderCall } from "./common";
+
+export class WorkersAIProvider implements ProviderAdapter {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  async complete(call: ProviderCall): Promise<GatewayResult> {
+    const aiResponse = await this.env.AI.run(
+      call.upstream,
+      {
+        messages: call.messages,
+        max_tokens: call.maxTokens,
+        temperature: call.temperature,
+      },
+      this.gatewayOptions()
+    );
+
+    const text = aiResponse.response || aiResponse.result?.response;
+    return {
+      text: text || JSON.stringify(aiResponse),
+      malformed: !text,
+      finishReason: "stop",
+      usage: aiResponse.usage
+        ? {
+            promptTokens: aiResponse.usage.prompt_tokens,
+            completionTokens: aiResponse.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  // Workers AI streams server-sent events of the form {"response": "..."}
+  async stream(call: ProviderCall): Promise<AsyncIterable<GatewayStreamEvent>> {
+    const stream: ReadableStream<Uint8Array> = await this.env.AI.run(
+      call.upstream,
+      {
+        messages: call.messages,
+        max_tokens: call.maxTokens,
+        temperature: call.temperature,
+        stream: true,
+      },
+      this.gatewayOptions()
+    );
+
+    return (async function* () {
+      for await (const data of parseSSE(stream)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data);
+        if (chunk.response) {
+          yield { delta: chunk.response };
+        }
+      }
+    })();
+  }
+
+  async embed(upstream: string, texts: string[]): Promise<number[][]> {
+    const response = await this.env.AI.run(
+      upstream,
+      { text: texts },
+      this.gatewayOptions()
+    );
+    return response.data;
+  }
+
+  // Route through the AI Gateway when one is configured
+  private gatewayOptions() {
+    return this.env.GATEWAY_NAME
+      ? {
+          gateway: {
+            id: this.env.GATEWAY_NAME,
+          },
+        }
+      : {};
+  }
+}
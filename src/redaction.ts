@@ -0,0 +1,177 @@
+// PII and secret redaction: sensitive values in prompts and responses are
+// replaced by numbered placeholders before they are embedded or stored
+
+import { Env } from "./types";
+
+export type RedactionMode = "off" | "redact" | "refuse";
+
+export interface Detector {
+  name: string; // Placeholder label, e.g. "email" gives [EMAIL_1]
+  pattern: RegExp; // Must be global
+  validate?: (match: string) => boolean; // Filters out false positives
+}
+
+// Luhn checksum, so order numbers and timestamps are not taken for cards
+function isLuhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Applied in order, so secrets and cards are found before the looser
+// phone pattern can claim their digits
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "secret",
+    pattern: new RegExp(
+      [
+        "-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----",
+        "\\bsk-[A-Za-z0-9_-]{20,}",
+        "\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b",
+        "\\bgh[pousr]_[A-Za-z0-9]{36,}\\b",
+        "\\bxox[abprs]-[A-Za-z0-9-]{10,}",
+        "\\bAIza[0-9A-Za-z_-]{35}\\b",
+        "\\bpck_[A-Za-z0-9_-]{16,}",
+        "\\bBearer\\s+[A-Za-z0-9._~+/-]{20,}=*",
+      ].join("|"),
+      "g"
+    ),
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+  },
+  {
+    name: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+  },
+  {
+    name: "phone",
+    // Groups must be separated, so bare 10-digit numbers such as order or
+    // account numbers are not taken for phones
+    pattern:
+      /(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\)[ .-]?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g,
+  },
+];
+
+export interface Redaction {
+  text: string;
+  values: Record<string, string>; // Placeholder to original value
+  detected: string[]; // Names of the detectors that matched
+}
+
+/**
+ * Replaces sensitive values with placeholders such as [EMAIL_1]. The same
+ * value always gets the same placeholder within one request, so a response
+ * redacted with its prompt's values refers to them by the prompt's
+ * placeholders, and `restore` can fill them in with another prompt's values.
+ */
+export class Redactor {
+  private detectors: Detector[];
+
+  constructor(detectors: Detector[]) {
+    this.detectors = detectors;
+  }
+
+  /**
+   * Redact `text`, numbering new values after those already in `values`
+   */
+  redact(text: string, values: Record<string, string> = {}): Redaction {
+    const placeholders = new Map(
+      Object.entries(values).map(([placeholder, value]) => [value, placeholder])
+    );
+    const counts: Record<string, number> = {};
+    for (const placeholder of placeholders.values()) {
+      const label = placeholder.slice(1, placeholder.lastIndexOf("_"));
+      counts[label] = (counts[label] || 0) + 1;
+    }
+
+    const detected = new Set<string>();
+    for (const detector of this.detectors) {
+      const label = detector.name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+      text = text.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) return match;
+        detected.add(detector.name);
+        let placeholder = placeholders.get(match);
+        if (!placeholder) {
+          counts[label] = (counts[label] || 0) + 1;
+          placeholder = `[${label}_${counts[label]}]`;
+          placeholders.set(match, placeholder);
+        }
+        return placeholder;
+      });
+    }
+
+    return {
+      text,
+      values: Object.fromEntries(
+        [...placeholders].map(([value, placeholder]) => [placeholder, value])
+      ),
+      detected: [...detected],
+    };
+  }
+
+  /**
+   * Replace the placeholders in `text` that `values` has a value for
+   */
+  restore(text: string, values: Record<string, string>): string {
+    return text.replace(
+      /\[[A-Z0-9_]+_\d+\]/g,
+      (placeholder) => values[placeholder] ?? placeholder
+    );
+  }
+}
+
+/**
+ * Off unless configured: redacted prompts that differ only in their values
+ * share one entry, which suits deployments whose answers only refer to the
+ * values rather than depend on them
+ */
+export function getRedactionMode(env: Env): RedactionMode {
+  const mode = env.REDACTION_MODE || "off";
+  if (mode === "off" || mode === "redact" || mode === "refuse") return mode;
+  console.error(`Unknown REDACTION_MODE ${mode}, redacting`);
+  return "redact";
+}
+
+/**
+ * The built-in detectors selected by REDACTION_DETECTORS (all by default),
+ * followed by the custom REDACTION_RULES
+ */
+export function createRedactor(env: Env): Redactor {
+  const enabled = env.REDACTION_DETECTORS
+    ? env.REDACTION_DETECTORS.split(",").map((name) => name.trim())
+    : null;
+  const detectors = BUILTIN_DETECTORS.filter(
+    (detector) => !enabled || enabled.includes(detector.name)
+  );
+
+  try {
+    const rules: { name: string; pattern: string }[] = env.REDACTION_RULES
+      ? JSON.parse(env.REDACTION_RULES)
+      : [];
+    for (const rule of rules) {
+      if (typeof rule?.name !== "string" || typeof rule.pattern !== "string") {
+        console.error("Ignoring invalid REDACTION_RULES entry:", rule);
+        continue;
+      }
+      detectors.push({
+        name: rule.name,
+        pattern: new RegExp(rule.pattern, "g"),
+      });
+    }
+  } catch (e) {
+    console.error("Ignoring invalid REDACTION_RULES:", e);
+  }
+
+  return new Redactor(detectors);
+}
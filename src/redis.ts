@@ -1,8 +1,43 @@
 // Redis vector operations using Upstash REST API
 
-import { CachedEntry, VectorSearchResult } from "./types";
+import {
+  CachedEntry,
+  CacheListPage,
+  CacheScope,
+  CacheUsagePage,
+  EntryUsage,
+  VectorSearchResult,
+  VectorStore,
+} from "./types";
+import { cosineSimilarity, isSearchableWith, matchesScope } from "./similarity";
+import { DEFAULT_EMBEDDING_MODEL } from "./embeddings";
 
-export class RedisVectorStore {
+// Versioned so a schema change creates a fresh index instead of reusing
+// one that lacks the new fields. A vector field has a fixed dimension, so
+// each embedding dimension gets its own index over the same documents.
+const INDEX_PREFIX = "idx:cache:v3:";
+const KEY_PREFIX = "cache:";
+
+// Keys fetched per SCAN page when scanning the whole cache
+const SCAN_PAGE_SIZE = 100;
+
+// Entry fields read by listUsage(), in the order it reads them
+const USAGE_FIELDS = ["timestamp", "hits", "lastAccessed", "pinned"];
+
+export type VectorAlgorithm = "HNSW" | "FLAT";
+
+// Kept per isolate so the bootstrap only runs once per Worker instance:
+// whether the server lacks the search module, whether it rejected a KNN
+// query vector, and the dimensions whose index is known to exist
+let searchUnavailable = false;
+let knnUnavailable = false;
+const readyIndexes = new Set<number>();
+
+function indexName(dimension: number): string {
+  return INDEX_PREFIX + dimension;
+}
+
+export class RedisClient {
   private redisUrl: string;
   private redisToken: string;
 
@@ -14,102 +49,521 @@ export class RedisVectorStore {
   /**
    * Execute Redis command via REST API
    */
-  private async execute(command: any[]): Promise<any> {
-    const response = await fetch(this.redisUrl, {
+  async execute(command: any[]): Promise<any> {
+    const data = (await this.post(this.redisUrl, command)) as { result: any };
+    return data.result;
+  }
+
+  /**
+   * Execute a command whose last argument is binary, e.g. a FLOAT32 vector.
+   * The JSON body would UTF-8 encode every byte of 0x80 and above, so the
+   * other arguments go in the URL path and the bytes are sent as the raw
+   * request body, which the REST API appends as the last argument.
+   */
+  async executeBinary(args: string[], last: Uint8Array): Promise<any> {
+    const path = args.map(encodeURIComponent).join("/");
+    const response = await fetch(`${this.redisUrl}/${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.redisToken}`,
+        "Content-Type": "application/octet-stream",
+      },
+      body: last,
+    });
+    const data = (await this.parse(response)) as { result: any };
+    return data.result;
+  }
+
+  /**
+   * Execute several commands in one round trip. Not atomic: each command
+   * succeeds or fails on its own, and the first failure is thrown.
+   */
+  async pipeline(commands: any[][]): Promise<any[]> {
+    const data = (await this.post(`${this.redisUrl}/pipeline`, commands)) as {
+      result?: any;
+      error?: string;
+    }[];
+
+    return data.map((reply) => {
+      if (reply.error) {
+        throw new Error(`Redis error: ${reply.error}`);
+      }
+      return reply.result;
+    });
+  }
+
+  private async post(url: string, body: any): Promise<unknown> {
+    const response = await fetch(url, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${this.redisToken}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify(command),
+      body: JSON.stringify(body),
     });
+    return this.parse(response);
+  }
 
+  private async parse(response: Response): Promise<unknown> {
     if (!response.ok) {
-      throw new Error(`Redis error: ${response.statusText}`);
+      // Upstash reports the server error message in the JSON body
+      const data = (await response.json().catch(() => null)) as {
+        error?: string;
+      } | null;
+      throw new Error(`Redis error: ${data?.error || response.statusText}`);
     }
 
-    const data = (await response.json()) as { result: any };
-    return data.result;
+    return response.json();
+  }
+}
+
+export class RedisVectorStore implements VectorStore {
+  private client: RedisClient;
+  private algorithm: VectorAlgorithm;
+  private embeddingModel: string;
+
+  // Searches only consider entries embedded with `embeddingModel`
+  constructor(
+    redisUrl: string,
+    redisToken: string,
+    algorithm: VectorAlgorithm = "HNSW",
+    embeddingModel: string = DEFAULT_EMBEDDING_MODEL
+  ) {
+    this.client = new RedisClient(redisUrl, redisToken);
+    this.algorithm = algorithm;
+    this.embeddingModel = embeddingModel;
+  }
+
+  /**
+   * Create the vector index for this dimension if it does not exist yet.
+   * Returns false when the server lacks the search module.
+   */
+  private async ensureIndex(dimension: number): Promise<boolean> {
+    if (searchUnavailable) return false;
+    if (readyIndexes.has(dimension)) return true;
+
+    try {
+      await this.client.execute(["FT.INFO", indexName(dimension)]);
+      readyIndexes.add(dimension);
+      return true;
+    } catch (e: any) {
+      if (isUnknownCommand(e)) {
+        searchUnavailable = true;
+        return false;
+      }
+      // Any other error means the index is missing, so create it below
+    }
+
+    try {
+      await this.client.execute([
+        "FT.CREATE",
+        indexName(dimension),
+        "ON",
+        "JSON",
+        "PREFIX",
+        "1",
+        KEY_PREFIX,
+        "SCHEMA",
+        "$.embedding",
+        "AS",
+        "embedding",
+        "VECTOR",
+        this.algorithm,
+        "6",
+        "TYPE",
+        "FLOAT32",
+        "DIM",
+        dimension.toString(),
+        "DISTANCE_METRIC",
+        "COSINE",
+        "$.model",
+        "AS",
+        "model",
+        "TAG",
+        "$.namespace",
+        "AS",
+        "namespace",
+        "TAG",
+        "$.maxTokensBucket",
+        "AS",
+        "max_tokens_bucket",
+        "NUMERIC",
+        "$.temperatureBucket",
+        "AS",
+        "temperature_bucket",
+        "NUMERIC",
+        "$.contextHash",
+        "AS",
+        "context_hash",
+        "TAG",
+        "$.embeddingModel",
+        "AS",
+        "embedding_model",
+        "TAG",
+      ]);
+      readyIndexes.add(dimension);
+    } catch (e: any) {
+      if (isUnknownCommand(e)) {
+        searchUnavailable = true;
+        return false;
+      }
+      // Another isolate may have created the index concurrently
+      if (!/index already exists/i.test(e.message)) {
+        throw e;
+      }
+      readyIndexes.add(dimension);
+    }
+
+    return true;
   }
 
   /**
    * Store a prompt with its embedding and response
    */
   async store(id: string, entry: CachedEntry): Promise<void> {
+    // Make sure the index exists so the new entry is picked up by it
+    await this.ensureIndex(entry.embedding.length);
+
     // Store the entry as JSON
-    await this.execute(["JSON.SET", `cache:${id}`, "$", JSON.stringify(entry)]);
+    await this.client.execute([
+      "JSON.SET",
+      KEY_PREFIX + id,
+      "$",
+      JSON.stringify(entry),
+    ]);
+
+    // Let Redis expire the key itself; PERSIST clears a TTL left over
+    // from a previous write (e.g. when an entry is pinned)
+    if (entry.expiresAt !== undefined) {
+      await this.client.execute([
+        "PEXPIREAT",
+        KEY_PREFIX + id,
+        entry.expiresAt.toString(),
+      ]);
+    } else {
+      await this.client.execute(["PERSIST", KEY_PREFIX + id]);
+    }
   }
 
   /**
-   * Search for similar prompts using vector similarity
-   * This is a simplified implementation using brute-force cosine similarity
-   * For production, use Redis Stack with vector indexes (FT.SEARCH)
+   * Fetch a single entry by id
    */
-  async searchSimilar(
+  async get(id: string): Promise<CachedEntry | null> {
+    const entryJson = await this.client.execute(["JSON.GET", KEY_PREFIX + id]);
+    return entryJson ? JSON.parse(entryJson) : null;
+  }
+
+  /**
+   * Search for similar prompts using vector similarity.
+   * Uses a KNN query against the vector index, falling back to a
+   * brute-force scan when the server lacks the search module or the
+   * query fails. A server that rejects the query vector itself (e.g. a
+   * REST proxy that does not take the last argument from the request
+   * body) is not sent KNN queries again by this isolate.
+   */
+  async search(
     embedding: number[],
     threshold: number,
+    scope?: CacheScope,
     limit: number = 1
   ): Promise<VectorSearchResult[]> {
-    // Get all cache keys
-    const keys = await this.execute(["KEYS", "cache:*"]);
+    if (!knnUnavailable && (await this.ensureIndex(embedding.length))) {
+      try {
+        return await this.knnSearch(embedding, threshold, scope, limit);
+      } catch (e: any) {
+        console.error("KNN query failed, scanning instead:", e);
+        if (isVectorRejected(e)) knnUnavailable = true;
+      }
+    }
+    return this.scanSimilar(embedding, threshold, scope, limit);
+  }
 
-    if (!keys || keys.length === 0) {
-      return [];
+  /**
+   * KNN query restricted to the request's partition with FT.SEARCH
+   */
+  private async knnSearch(
+    embedding: number[],
+    threshold: number,
+    scope: CacheScope | undefined,
+    limit: number
+  ): Promise<VectorSearchResult[]> {
+    // Entries from before the embedding model was recorded have no
+    // embedding_model field and are only found once re-embedded, as in
+    // the scan
+    const filters = [`@embedding_model:{${escapeTag(this.embeddingModel)}}`];
+    if (scope) {
+      filters.push(
+        `@namespace:{${escapeTag(scope.namespace)}}`,
+        `@max_tokens_bucket:[${scope.maxTokensBucket} ${scope.maxTokensBucket}]`,
+        `@temperature_bucket:[${scope.temperatureBucket} ${scope.temperatureBucket}]`,
+        `@context_hash:{${scope.contextHash}}`
+      );
+      if (scope.model !== undefined) {
+        filters.push(`@model:{${escapeTag(scope.model)}}`);
+      }
     }
+    const filter = `(${filters.join(" ")})`;
+
+    // PARAMS goes last so the vector blob is the final argument
+    const reply = await this.client.executeBinary(
+      [
+        "FT.SEARCH",
+        indexName(embedding.length),
+        `${filter}=>[KNN $k @embedding $vec AS vector_score]`,
+        "SORTBY",
+        "vector_score",
+        "RETURN",
+        "2",
+        "$",
+        "vector_score",
+        "DIALECT",
+        "2",
+        "PARAMS",
+        "4",
+        "k",
+        limit.toString(),
+        "vec",
+      ],
+      toFloat32Blob(embedding)
+    );
 
+    // Reply shape: [total, key1, [field, value, ...], key2, [...], ...]
     const results: VectorSearchResult[] = [];
+    for (let i = 1; i + 1 < reply.length; i += 2) {
+      const fields: string[] = reply[i + 1];
+      const values: Record<string, string> = {};
+      for (let j = 0; j + 1 < fields.length; j += 2) {
+        values[fields[j]] = fields[j + 1];
+      }
 
-    // Fetch all entries and compute similarity
-    for (const key of keys) {
-      try {
-        const entryJson = await this.execute(["JSON.GET", key]);
-        if (!entryJson) continue;
+      // COSINE distance is 1 - cosine similarity
+      const similarity = 1 - parseFloat(values.vector_score);
+      if (similarity < threshold || !values.$) continue;
 
-        const entry: CachedEntry = JSON.parse(entryJson);
-        const similarity = this.cosineSimilarity(embedding, entry.embedding);
+      results.push({
+        id: reply[i].slice(KEY_PREFIX.length),
+        score: similarity,
+        data: JSON.parse(values.$),
+      });
+    }
+
+    return results;
+  }
 
+  /**
+   * Brute-force cosine similarity over every cached entry, a page of
+   * SCAN + JSON.MGET at a time
+   */
+  private async scanSimilar(
+    embedding: number[],
+    threshold: number,
+    scope: CacheScope | undefined,
+    limit: number
+  ): Promise<VectorSearchResult[]> {
+    const results: VectorSearchResult[] = [];
+
+    let cursor: string | undefined = "0";
+    do {
+      const page = await this.list(cursor, SCAN_PAGE_SIZE);
+      for (const { id, data: entry } of page.entries) {
+        if (!isSearchableWith(entry, this.embeddingModel)) continue;
+        if (scope && !matchesScope(entry, scope)) continue;
+
+        const similarity = cosineSimilarity(embedding, entry.embedding);
         if (similarity >= threshold) {
-          results.push({
-            id: key,
-            score: similarity,
-            data: entry,
-          });
+          results.push({ id, score: similarity, data: entry });
         }
-      } catch (e) {
-        // Skip invalid entries
-        continue;
       }
-    }
+      cursor = page.cursor;
+    } while (cursor);
 
     // Sort by similarity score (descending) and return top results
     return results.sort((a, b) => b.score - a.score).slice(0, limit);
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Delete a cached entry
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.execute(["DEL", KEY_PREFIX + id]);
+  }
+
+  /**
+   * Delete several entries with one DEL
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.client.execute(["DEL", ...ids.map((id) => KEY_PREFIX + id)]);
+  }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+  /**
+   * Bump the hit count and last-access time used for eviction
+   */
+  async recordHit(id: string): Promise<void> {
+    await this.client.execute([
+      "JSON.NUMINCRBY",
+      KEY_PREFIX + id,
+      "$.hits",
+      "1",
+    ]);
+    await this.client.execute([
+      "JSON.SET",
+      KEY_PREFIX + id,
+      "$.lastAccessed",
+      Date.now().toString(),
+    ]);
+  }
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  /**
+   * Count cached entries. Each entry is indexed by the index of its
+   * dimension only, so the indexes' totals add up to the whole cache.
+   * Without the search module the keys are counted instead.
+   */
+  async count(): Promise<number> {
+    if (!searchUnavailable) {
+      try {
+        const indexes: string[] = await this.client.execute(["FT._LIST"]);
+        const totals = await Promise.all(
+          indexes
+            .filter((index) => index.startsWith(INDEX_PREFIX))
+            .map((index) =>
+              // LIMIT 0 0 returns only the number of indexed documents
+              this.client.execute(["FT.SEARCH", index, "*", "LIMIT", "0", "0"])
+            )
+        );
+        return totals.reduce((sum, reply) => sum + reply[0], 0);
+      } catch (e: any) {
+        if (!isUnknownCommand(e)) throw e;
+        searchUnavailable = true;
+      }
     }
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    return denominator === 0 ? 0 : dotProduct / denominator;
+    let total = 0;
+    let cursor = "0";
+    do {
+      const [next, keys] = (await this.client.execute([
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${KEY_PREFIX}*`,
+        "COUNT",
+        SCAN_PAGE_SIZE.toString(),
+      ])) as [string, string[]];
+      total += keys.length;
+      cursor = next;
+    } while (cursor !== "0");
+    return total;
   }
 
   /**
-   * Get cache statistics
+   * Page through cached entries with SCAN
    */
-  async getCacheSize(): Promise<number> {
-    const keys = await this.execute(["KEYS", "cache:*"]);
-    return keys ? keys.length : 0;
+  async list(cursor: string = "0", limit: number = 50): Promise<CacheListPage> {
+    const [nextCursor, keys] = (await this.client.execute([
+      "SCAN",
+      cursor,
+      "MATCH",
+      `${KEY_PREFIX}*`,
+      "COUNT",
+      limit.toString(),
+    ])) as [string, string[]];
+
+    const entries: CacheListPage["entries"] = [];
+    if (keys.length > 0) {
+      // JSON.MGET with the root path returns each document wrapped in an array
+      const values: (string | null)[] = await this.client.execute([
+        "JSON.MGET",
+        ...keys,
+        "$",
+      ]);
+      keys.forEach((key, i) => {
+        const value = values[i];
+        if (!value) return;
+        entries.push({
+          id: key.slice(KEY_PREFIX.length),
+          data: JSON.parse(value)[0],
+        });
+      });
+    }
+
+    return {
+      entries,
+      cursor: nextCursor === "0" ? undefined : nextCursor,
+    };
   }
+
+  /**
+   * Page through the eviction fields of entries with SCAN, reading each
+   * field of the page's keys with one JSON.MGET
+   */
+  async listUsage(
+    cursor: string = "0",
+    limit: number = 50
+  ): Promise<CacheUsagePage> {
+    const [nextCursor, keys] = (await this.client.execute([
+      "SCAN",
+      cursor,
+      "MATCH",
+      `${KEY_PREFIX}*`,
+      "COUNT",
+      limit.toString(),
+    ])) as [string, string[]];
+
+    const entries: CacheUsagePage["entries"] = [];
+    if (keys.length > 0) {
+      const replies: (string | null)[][] = await this.client.pipeline(
+        USAGE_FIELDS.map((field) => ["JSON.MGET", ...keys, `$.${field}`])
+      );
+      // Each value is an array of the path's matches, empty when absent
+      const [timestamps, hits, lastAccessed, pinned] = replies.map((values) =>
+        values.map((value) => (value ? JSON.parse(value)[0] : undefined))
+      );
+
+      keys.forEach((key, i) => {
+        // A key without a timestamp expired or was deleted since SCAN
+        if (timestamps[i] === undefined) return;
+        const usage: EntryUsage = {
+          timestamp: timestamps[i],
+          hits: hits[i],
+          lastAccessed: lastAccessed[i],
+          pinned: pinned[i],
+        };
+        entries.push({ id: key.slice(KEY_PREFIX.length), usage });
+      });
+    }
+
+    return {
+      entries,
+      cursor: nextCursor === "0" ? undefined : nextCursor,
+    };
+  }
+}
+
+/**
+ * Whether a Redis error means the command is not supported by the server
+ */
+function isUnknownCommand(error: Error): boolean {
+  return /unknown command/i.test(error.message);
+}
+
+/**
+ * Whether FT.SEARCH rejected the query vector blob, e.g. because its size
+ * does not match the index dimension
+ */
+function isVectorRejected(error: Error): boolean {
+  return /vector|blob/i.test(error.message);
+}
+
+/**
+ * Escape punctuation in a TAG query value (model names contain "/", "@", ".")
+ */
+function escapeTag(value: string): string {
+  return value.replace(/[^A-Za-z0-9_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Encode an embedding as the little-endian FLOAT32 blob FT.SEARCH expects
+ */
+function toFloat32Blob(embedding: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(embedding).buffer);
 }
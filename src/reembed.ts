@@ -0,0 +1,97 @@
+// Background migration of cached entries to the configured embedding model
+
+import { Env } from "./types";
+import { PromptCache } from "./cache";
+import { withEntryJobLock } from "./job-lock";
+import { getEmbeddingModel } from "./embeddings";
+
+// Progress is kept in KV so a migration resumes across cron invocations
+const STATE_KEY = "reembed:state";
+const PAGE_SIZE = 50;
+
+export interface ReembedState {
+  embeddingModel: string; // Model the entries are being migrated to
+  cursor?: string; // Listing cursor of the next page
+  scanned: number;
+  migrated: number;
+  failed: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export async function getReembedState(env: Env): Promise<ReembedState | null> {
+  return env.CACHE_STATS.get<ReembedState>(STATE_KEY, "json");
+}
+
+/**
+ * Start (or restart) migrating every entry to the configured model
+ */
+export async function startReembed(env: Env): Promise<ReembedState> {
+  const state: ReembedState = {
+    embeddingModel: getEmbeddingModel(env),
+    scanned: 0,
+    migrated: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  };
+  await env.CACHE_STATS.put(STATE_KEY, JSON.stringify(state));
+  return state;
+}
+
+/**
+ * Re-embed pages of entries until the migration finishes, `budgetMs` runs
+ * out or `maxEntries` entries have been scanned, saving progress after
+ * every page. Waits for the next run while a re-encryption is working.
+ * Returns the state, or null when no migration was started.
+ */
+export async function runReembed(
+  env: Env,
+  budgetMs: number = 20_000,
+  maxEntries: number = Infinity
+): Promise<ReembedState | null> {
+  const saved = await getReembedState(env);
+  if (!saved || saved.finishedAt !== undefined) return saved;
+
+  // EMBEDDING_MODEL changed since the migration started: begin again
+  const state =
+    saved.embeddingModel !== getEmbeddingModel(env)
+      ? await startReembed(env)
+      : saved;
+
+  // While the re-encryption holds the lock, the next run carries on from
+  // the saved cursor
+  const cache = new PromptCache(env);
+  await withEntryJobLock(env, budgetMs, async () => {
+    const deadline = Date.now() + budgetMs;
+    let scanned = 0;
+
+    while (Date.now() < deadline && scanned < maxEntries) {
+      const page = await cache.listEntries(
+        {},
+        state.cursor,
+        Math.min(PAGE_SIZE, maxEntries - scanned)
+      );
+      scanned += page.entries.length;
+
+      for (const { id, data } of page.entries) {
+        state.scanned++;
+        try {
+          if (await cache.reembedEntry(id, data)) state.migrated++;
+        } catch (e) {
+          console.error(`Failed to re-embed entry ${id}:`, e);
+          state.failed++;
+        }
+      }
+
+      state.cursor = page.cursor;
+      if (page.cursor === undefined) {
+        state.finishedAt = Date.now();
+      }
+      await env.CACHE_STATS.put(STATE_KEY, JSON.stringify(state));
+
+      if (state.finishedAt !== undefined) break;
+    }
+  });
+
+  return state;
+}
@@ -0,0 +1,106 @@
+// Background re-encryption of cached entries with the current encryption key
+
+import { Env } from "./types";
+import { PromptCache } from "./cache";
+import { withEntryJobLock } from "./job-lock";
+import { getEncryptionConfig } from "./encryption";
+
+// Progress is kept in KV so a rotation resumes across cron invocations
+const STATE_KEY = "reencrypt:state";
+const PAGE_SIZE = 50;
+
+export interface ReencryptState {
+  keyId: string; // Key the entries are being re-encrypted with
+  cursor?: string; // Listing cursor of the next page
+  scanned: number;
+  reencrypted: number;
+  failed: number; // Mostly entries encrypted with a key that was removed
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export async function getReencryptState(
+  env: Env
+): Promise<ReencryptState | null> {
+  return env.CACHE_STATS.get<ReencryptState>(STATE_KEY, "json");
+}
+
+/**
+ * Start (or restart) re-encrypting every entry with the current key.
+ * Returns null when encryption is not configured.
+ */
+export async function startReencrypt(env: Env): Promise<ReencryptState | null> {
+  const encryption = getEncryptionConfig(env);
+  if (!encryption) return null;
+
+  const state: ReencryptState = {
+    keyId: encryption.currentKeyId,
+    scanned: 0,
+    reencrypted: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  };
+  await env.CACHE_STATS.put(STATE_KEY, JSON.stringify(state));
+  return state;
+}
+
+/**
+ * Re-encrypt pages of entries until the rotation finishes, `budgetMs` runs
+ * out or `maxEntries` entries have been scanned, saving progress after
+ * every page. Waits for the next run while a re-embedding is working.
+ * Returns the state, or null when no rotation was started or encryption
+ * has since been disabled.
+ */
+export async function runReencrypt(
+  env: Env,
+  budgetMs: number = 20_000,
+  maxEntries: number = Infinity
+): Promise<ReencryptState | null> {
+  const saved = await getReencryptState(env);
+  if (!saved || saved.finishedAt !== undefined) return saved;
+
+  // CACHE_ENCRYPTION_KEY_ID changed since the rotation started: begin again
+  const encryption = getEncryptionConfig(env);
+  if (!encryption) return null;
+  const state =
+    saved.keyId !== encryption.currentKeyId
+      ? (await startReencrypt(env))!
+      : saved;
+
+  // While the re-embedding holds the lock, the next run carries on from
+  // the saved cursor
+  const cache = new PromptCache(env);
+  await withEntryJobLock(env, budgetMs, async () => {
+    const deadline = Date.now() + budgetMs;
+    let scanned = 0;
+
+    while (Date.now() < deadline && scanned < maxEntries) {
+      const page = await cache.listEntries(
+        {},
+        state.cursor,
+        Math.min(PAGE_SIZE, maxEntries - scanned)
+      );
+      scanned += page.entries.length;
+
+      for (const { id, data } of page.entries) {
+        state.scanned++;
+        try {
+          if (await cache.reencryptEntry(id, data)) state.reencrypted++;
+        } catch (e) {
+          console.error(`Failed to re-encrypt entry ${id}:`, e);
+          state.failed++;
+        }
+      }
+
+      state.cursor = page.cursor;
+      if (page.cursor === undefined) {
+        state.finishedAt = Date.now();
+      }
+      await env.CACHE_STATS.put(STATE_KEY, JSON.stringify(state));
+
+      if (state.finishedAt !== undefined) break;
+    }
+  });
+
+  return state;
+}
@@ -0,0 +1,250 @@
+// Retries, timeouts, fallback models and circuit breaking around provider
+// calls
+
+import { Env } from "./types";
+import { ProviderError, getProviderName } from "./gateway";
+import { isConnectionError, isRetryableStatus } from "./providers/common";
+import { MetaStore, createMetaStore } from "./meta-store";
+
+export const DEFAULT_PROVIDER_TIMEOUT_SECONDS = 30;
+export const DEFAULT_PROVIDER_MAX_RETRIES = 2;
+export const DEFAULT_BREAKER_THRESHOLD = 5;
+export const DEFAULT_BREAKER_COOLDOWN_SECONDS = 30;
+
+// Failures are counted per provider over a fixed window
+const BREAKER_WINDOW_SECONDS = 60;
+
+// Backoff before retry n is BASE_BACKOFF_MS * 2^(n-1), plus up to 50% jitter
+const BASE_BACKOFF_MS = 200;
+
+export interface ResilienceConfig {
+  timeoutMs: number;
+  maxRetries: number; // Retries per model, after the first attempt
+  fallbacks: Record<string, string[]>; // Model (or "*") to fallback models
+  breakerThreshold: number; // Failures per window that open the circuit; 0 disables
+  breakerCooldownSeconds: number;
+  staleSimilarityThreshold?: number; // Unset never serves stale entries
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+export function getResilienceConfig(env: Env): ResilienceConfig {
+  let fallbacks: Record<string, string[]> = {};
+  try {
+    fallbacks = env.MODEL_FALLBACKS ? JSON.parse(env.MODEL_FALLBACKS) : {};
+  } catch (e) {
+    console.error("Ignoring invalid MODEL_FALLBACKS:", e);
+  }
+
+  return {
+    timeoutMs:
+      parseNumber(
+        env.PROVIDER_TIMEOUT_SECONDS,
+        DEFAULT_PROVIDER_TIMEOUT_SECONDS
+      ) * 1000,
+    maxRetries: parseNumber(
+      env.PROVIDER_MAX_RETRIES,
+      DEFAULT_PROVIDER_MAX_RETRIES
+    ),
+    fallbacks,
+    breakerThreshold: parseNumber(
+      env.CIRCUIT_BREAKER_THRESHOLD,
+      DEFAULT_BREAKER_THRESHOLD
+    ),
+    breakerCooldownSeconds: parseNumber(
+      env.CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+      DEFAULT_BREAKER_COOLDOWN_SECONDS
+    ),
+    staleSimilarityThreshold: env.STALE_SIMILARITY_THRESHOLD
+      ? parseFloat(env.STALE_SIMILARITY_THRESHOLD)
+      : undefined,
+  };
+}
+
+/**
+ * The requested model followed by its fallbacks (or the "*" chain), each
+ * tried once
+ */
+export function fallbackChain(model: string, config: ResilienceConfig) {
+  const fallbacks = config.fallbacks[model] ?? config.fallbacks["*"] ?? [];
+  return [...new Set([model, ...fallbacks])];
+}
+
+/**
+ * Timeouts, rate limits, server errors and dropped connections are worth
+ * another attempt. Other HTTP errors, configuration errors and anything
+ * unrecognized, such as a TypeError from a bug, are not, and never count
+ * against the circuit breaker.
+ */
+export function isRetryable(error: any): boolean {
+  if (error instanceof ProviderError) return error.retryable;
+  if (typeof error?.status === "number") return isRetryableStatus(error.status);
+  return isConnectionError(error);
+}
+
+/**
+ * Longest a call through callWithResilience can take for `model`: every
+ * model in its chain timing out on every attempt, with the longest backoff
+ * between attempts
+ */
+export function callBudgetMs(model: string, config: ResilienceConfig): number {
+  let backoffMs = 0;
+  for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
+    backoffMs += BASE_BACKOFF_MS * 2 ** (attempt - 1) * 1.5;
+  }
+  const perModelMs = (config.maxRetries + 1) * config.timeoutMs + backoffMs;
+  return fallbackChain(model, config).length * perModelMs;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a retryable ProviderError if `call` has not settled within
+ * `timeoutMs`, aborting the signal it was given so the request is
+ * cancelled rather than left running. Workers AI calls cannot be
+ * cancelled and are only abandoned.
+ */
+function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  model: string
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        new ProviderError(`${model} timed out after ${timeoutMs}ms`, {
+          status: 504,
+        })
+      );
+      controller.abort();
+    }, timeoutMs);
+  });
+  return Promise.race([call(controller.signal), timeout]).finally(() =>
+    clearTimeout(timer)
+  );
+}
+
+/**
+ * Circuit breaker per provider, shared by every isolate through the meta
+ * store. Retryable failures are counted over a fixed window; reaching the
+ * threshold opens the circuit for the cooldown, during which the provider
+ * is skipped. A success resets the count. Breaker errors never fail a
+ * request: the circuit is treated as closed.
+ */
+export class CircuitBreaker {
+  private store: MetaStore;
+  private threshold: number;
+  private cooldownSeconds: number;
+
+  constructor(env: Env, config: ResilienceConfig) {
+    this.store = createMetaStore(env);
+    this.threshold = config.breakerThreshold;
+    this.cooldownSeconds = config.breakerCooldownSeconds;
+  }
+
+  async isOpen(provider: string): Promise<boolean> {
+    if (this.threshold <= 0) return false;
+    try {
+      return await this.store.exists(`circuit:${provider}:open`);
+    } catch (e) {
+      console.error("Failed to read circuit state:", e);
+      return false;
+    }
+  }
+
+  async recordFailure(provider: string): Promise<void> {
+    if (this.threshold <= 0) return;
+    try {
+      const failures = await this.store.incr(
+        `circuit:${provider}:failures`,
+        BREAKER_WINDOW_SECONDS
+      );
+      if (failures >= this.threshold) {
+        await this.store.setnx(
+          `circuit:${provider}:open`,
+          this.cooldownSeconds
+        );
+      }
+    } catch (e) {
+      console.error("Failed to record provider failure:", e);
+    }
+  }
+
+  async recordSuccess(provider: string): Promise<void> {
+    if (this.threshold <= 0) return;
+    try {
+      await this.store.del(`circuit:${provider}:failures`);
+    } catch (e) {
+      console.error("Failed to reset circuit:", e);
+    }
+  }
+}
+
+/**
+ * Call `call` with the requested model, retrying retryable failures with
+ * backoff, then with each fallback model in turn. Providers whose circuit
+ * is open are skipped. `call` gets a signal that is aborted when the
+ * attempt times out. `onAttempt` observes every attempt. Throws a
+ * ProviderError listing each model's failure when none answered.
+ */
+export async function callWithResilience<T>(
+  model: string,
+  env: Env,
+  call: (model: string, signal: AbortSignal) => Promise<T>,
+  onAttempt?: (model: string, latencyMs: number, failed: boolean) => void
+): Promise<{ result: T; model: string }> {
+  const config = getResilienceConfig(env);
+  const breaker = new CircuitBreaker(env, config);
+  const failures: string[] = [];
+
+  for (const candidate of fallbackChain(model, config)) {
+    const provider = getProviderName(candidate, env);
+    if (await breaker.isOpen(provider)) {
+      failures.push(`${candidate}: circuit open for ${provider}`);
+      continue;
+    }
+
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const backoff = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+        await sleep(backoff + Math.random() * backoff * 0.5);
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await withTimeout(
+          (signal) => call(candidate, signal),
+          config.timeoutMs,
+          candidate
+        );
+        onAttempt?.(candidate, Date.now() - startedAt, false);
+        await breaker.recordSuccess(provider);
+        return { result, model: candidate };
+      } catch (error: any) {
+        onAttempt?.(candidate, Date.now() - startedAt, true);
+        console.error(`Provider call to ${candidate} failed:`, error);
+
+        if (!isRetryable(error)) {
+          failures.push(`${candidate}: ${error.message}`);
+          break;
+        }
+        await breaker.recordFailure(provider);
+        if (attempt === config.maxRetries) {
+          failures.push(`${candidate}: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  throw new ProviderError(`All providers failed (${failures.join("; ")})`, {
+    status: 502,
+    retryable: false,
+  });
+}
@@ -0,0 +1,82 @@
+// Entry matching helpers shared by the vector store backends
+
+import { CachedEntry, CacheScope } from "./types";
+import { DEFAULT_EMBEDDING_MODEL } from "./embeddings";
+
+/**
+ * Embedding model an entry was embedded with. Entries written before the
+ * model was recorded used the default.
+ */
+export function embeddingModelOf(entry: CachedEntry): string {
+  return entry.embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+}
+
+/**
+ * Check whether a search with `embeddingModel` may return an entry. Entries
+ * with no recorded model are skipped like on the Redis index and Vectorize,
+ * which cannot filter on a missing field, until a migration stamps them.
+ */
+export function isSearchableWith(
+  entry: CachedEntry,
+  embeddingModel: string
+): boolean {
+  return entry.embeddingModel === embeddingModel;
+}
+
+/**
+ * Check whether an entry belongs to the requested cache partition
+ */
+export function matchesScope(entry: CachedEntry, scope: CacheScope): boolean {
+  // Entries written before partitioning have no buckets and never match
+  return (
+    (scope.model === undefined || entry.model === scope.model) &&
+    entry.namespace === scope.namespace &&
+    entry.maxTokensBucket === scope.maxTokensBucket &&
+    entry.temperatureBucket === scope.temperatureBucket &&
+    entry.contextHash === scope.contextHash
+  );
+}
+
+/**
+ * Check whether an entry has passed its TTL
+ */
+export function isExpired(entry: CachedEntry, now: number = Date.now()) {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * Check whether a query falls in a neighborhood the entry was reported as a
+ * wrong match for: it is closer to one of the entry's negative examples
+ * than to the entry's own prompt (at `similarity`)
+ */
+export function isExcludedByFeedback(
+  entry: CachedEntry,
+  embedding: number[],
+  similarity: number
+): boolean {
+  return (entry.negatives || []).some(
+    (negative) => cosineSimilarity(embedding, negative.embedding) > similarity
+  );
+}
+
+/**
+ * Calculate cosine similarity between two vectors. Vectors of different
+ * dimensions come from different embedding models and are not comparable,
+ * so their similarity is 0.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
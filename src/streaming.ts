@@ -0,0 +1,82 @@
+// Server-sent event helpers for streamed responses
+
+import { GatewayStreamEvent } from "./types";
+
+/**
+ * Read `data:` payloads from a server-sent event stream
+ */
+export async function* parseSSE(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) yield data;
+    }
+  }
+}
+
+/**
+ * Replay a cached response as a stream of word-sized chunks, so clients
+ * handle hits and misses with the same code path
+ */
+export async function* replayAsStream(
+  text: string
+): AsyncGenerator<GatewayStreamEvent> {
+  // Keep the whitespace attached to each word so the chunks join back up
+  const words = text.match(/\S+\s*|\s+/g) || [];
+  for (const word of words) {
+    yield { delta: word };
+  }
+  yield { delta: "", finishReason: "stop" };
+}
+
+/**
+ * Stream `data:` events to the client. Each payload is one event.
+ */
+export function sseResponse(
+  payloads: AsyncIterable<string>,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = payloads[Symbol.asyncIterator]();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(`data: ${value}\n\n`));
+      }
+    },
+    async cancel() {
+      // Client went away: stop reading from the provider
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -1,11 +1,74 @@
 // TypeScript types for the prompt caching system
 
+import { CacheMode } from "./cache-control";
+
 export interface Env {
   AI: any; // Cloudflare Workers AI binding
   CACHE_STATS: KVNamespace; // KV for metadata
-  REDIS_URL: string; // Upstash Redis REST URL
-  REDIS_TOKEN: string; // Upstash Redis token
+  REDIS_URL?: string; // Upstash Redis REST URL
+  REDIS_TOKEN?: string; // Upstash Redis token
   SIMILARITY_THRESHOLD?: string; // Configurable threshold
+  // JSON overrides, e.g. { "models": { "gpt-5-mini": 0.9 }, "namespaces": { "support": 0.8 } }
+  SIMILARITY_THRESHOLDS?: string;
+  CALIBRATION_MODE?: string; // "true" samples near-threshold lookups
+
+  // Vector store backend selection
+  VECTOR_STORE?: string; // "redis" (default), "vectorize" or "memory"
+  VECTORIZE?: Vectorize; // Vectorize index (vectorize backend)
+  CACHE_ENTRIES?: KVNamespace; // KV for entry bodies (vectorize backend)
+
+  // Cache entry lifecycle
+  CACHE_TTL_SECONDS?: string; // Default entry lifetime; unset means no expiry
+  CACHE_MAX_ENTRIES?: string; // Evict entries beyond this count
+  CACHE_EVICTION_POLICY?: string; // "lru" (default) or "lfu"
+  COALESCE_TIMEOUT_SECONDS?: string; // Wait for an identical in-flight miss; "0" disables
+
+  // Write policy: responses kept out of the cache
+  CACHE_MAX_TEMPERATURE?: string; // Skip responses sampled above this
+  CACHE_MIN_PROMPT_LENGTH?: string; // Characters
+  CACHE_MAX_PROMPT_LENGTH?: string;
+  CACHE_DENY_PATTERNS?: string; // JSON array of case-insensitive regexes
+  CACHE_TRUNCATED_RESPONSES?: string; // "true" caches responses cut off by max_tokens
+
+  // Redaction of sensitive data before it is embedded or stored
+  REDACTION_MODE?: string; // "off" (default), "redact" or "refuse"
+  REDACTION_DETECTORS?: string; // Comma-separated built-in detectors; all by default
+  // JSON array of custom detectors, e.g. [{ "name": "order_id", "pattern": "ORD-\\d{8}" }]
+  REDACTION_RULES?: string;
+
+  // Encryption at rest of entry prompts and responses: JSON map of key id
+  // to base64-encoded 256-bit AES key, e.g. { "2025-01": "..." }
+  CACHE_ENCRYPTION_KEYS?: string;
+  CACHE_ENCRYPTION_KEY_ID?: string; // Key new entries use; defaults to the first
+
+  // Embeddings
+  EMBEDDING_MODEL?: string; // Workers AI model, or "openai/..." / "google/..."
+  EMBEDDING_CACHE_SIZE?: string; // Embeddings kept per isolate; "0" disables
+
+  // Provider resilience
+  PROVIDER_TIMEOUT_SECONDS?: string; // Per attempt; defaults to 30
+  PROVIDER_MAX_RETRIES?: string; // Retries per model; defaults to 2
+  // JSON map of model (or "*") to fallback models, e.g.
+  // { "claude-sonnet-4-5-20250929": ["gpt-5-mini", "@cf/meta/llama-3.1-8b-instruct"] }
+  MODEL_FALLBACKS?: string;
+  CIRCUIT_BREAKER_THRESHOLD?: string; // Failures per minute; "0" disables
+  CIRCUIT_BREAKER_COOLDOWN_SECONDS?: string;
+  STALE_SIMILARITY_THRESHOLD?: string; // Serve near misses above this when providers fail
+
+  // Model registry: JSON array of model definitions, added to or replacing
+  // the built-in models by id (see ModelDefinition)
+  MODELS?: string;
+
+  // Legacy pricing: JSON map of model to USD prices per million tokens,
+  // e.g. { "gpt-5-mini": { "input_per_million": 0.25, "output_per_million": 2 } }.
+  // Applies to registry models without their own pricing.
+  MODEL_PRICING?: string;
+
+  ADMIN_TOKEN?: string; // Bearer token for /admin routes; unset disables them
+  METRICS_TOKEN?: string; // Bearer token for /metrics; unset leaves it public
+  METRICS_NAMESPACES?: string; // Comma-separated namespaces counted by name; others as "other"
+  ALLOW_ANONYMOUS?: string; // "true" serves chat routes without an API key
+  REDIS_VECTOR_ALGORITHM?: string; // "HNSW" (default) or "FLAT" index
 
   // Cloudflare AI Gateway configuration
   GATEWAY_ACCOUNT_ID?: string; // Your Cloudflare account ID
@@ -16,28 +79,107 @@ export interface Env {
   ANTHROPIC_API_KEY?: string; // For Anthropic models
   OPENAI_API_KEY?: string; // For OpenAI models
   GOOGLE_AI_STUDIO_TOKEN?: string; // For Google/Gemini models
+  MISTRAL_API_KEY?: string; // For Mistral models
+  GROQ_API_KEY?: string; // For Groq models
+
+  // Azure OpenAI: models' upstream names are deployments in this resource
+  AZURE_OPENAI_RESOURCE?: string;
+  AZURE_OPENAI_API_KEY?: string;
+  AZURE_OPENAI_API_VERSION?: string; // Defaults to 2024-10-21
+
+  // AWS Bedrock credentials, for signing requests
+  AWS_ACCESS_KEY_ID?: string;
+  AWS_SECRET_ACCESS_KEY?: string;
+  AWS_SESSION_TOKEN?: string; // For temporary credentials
+  AWS_REGION?: string; // Defaults to us-east-1
+
+  // Self-hosted OpenAI-compatible servers (vLLM, Ollama, ...), called
+  // directly. Models may set their own baseUrl.
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
 }
 
 export interface ChatRequest {
-  prompt: string;
+  prompt: string; // The new user message
+  system?: string; // Optional system prompt
+  messages?: ChatMessage[]; // Earlier turns of the conversation, oldest first
   model?: string;
   max_tokens?: number;
   temperature?: number;
+  namespace?: string; // Optional caller-supplied cache partition
+  allow_cross_model?: boolean; // Reuse cached responses written by other models
+  ttl?: number; // Entry lifetime in seconds, overrides CACHE_TTL_SECONDS
+  similarity_threshold?: number; // Overrides the configured thresholds
+  stream?: boolean; // Respond with server-sent events
+  cache_mode?: CacheMode; // Overrides the Cache-Control header
+  max_age?: number; // Seconds; older cached entries are not served
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Normalized provider response
+export interface GatewayResult {
+  text: string;
+  finishReason: "stop" | "length"; // "length" when cut off by max_tokens
+  usage?: { promptTokens: number; completionTokens: number };
+  malformed?: boolean; // The reply had no text; `text` is its raw payload
+}
+
+// One chunk of a streamed provider response
+export interface GatewayStreamEvent {
+  delta: string;
+  finishReason?: "stop" | "length"; // Set once the provider reports it
 }
 
 export interface ChatResponse {
   response: string;
   cached: boolean;
+  stale?: boolean; // Near miss served because every provider failed
   similarity?: number;
+  match?: "exact" | "semantic"; // How a cache hit matched
+  fallback_model?: string; // Model that answered, when not the requested one
+  cache_skipped?: string; // Why the write policy did not cache a fresh response
+  request_id: string; // Identifies the request to POST /feedback
   timestamp: number;
 }
 
+// A prompt an entry was reported as a wrong match for
+export interface NegativeExample {
+  prompt: string;
+  embedding: number[];
+}
+
 export interface CachedEntry {
   prompt: string;
   embedding: number[];
   response: string;
   timestamp: number;
   model: string;
+  namespace: string;
+  maxTokensBucket: number;
+  temperatureBucket: number;
+  contextHash: string; // Hash of the system prompt and earlier turns
+  embeddingModel?: string; // Absent on entries from before it was recorded
+  embeddingDim?: number;
+  hits: number; // Times the entry has been served
+  lastAccessed: number; // Last time the entry was written or served
+  expiresAt?: number; // Epoch ms; absent means the entry never expires
+  pinned?: boolean; // Pinned entries are exempt from expiry and eviction
+  falseHits?: number; // Hits reported as wrong matches through /feedback
+  negatives?: NegativeExample[]; // Prompts the entry must not answer
+  encryptionKeyId?: string; // Key the entry is encrypted with; absent in the clear
+}
+
+// Partition a lookup is restricted to; entries outside it are never returned
+export interface CacheScope {
+  model?: string; // Omitted when cross-model reuse is allowed
+  namespace: string;
+  maxTokensBucket: number;
+  temperatureBucket: number;
+  contextHash: string;
 }
 
 export interface VectorSearchResult {
@@ -45,3 +187,38 @@ export interface VectorSearchResult {
   score: number;
   data: CachedEntry;
 }
+
+export interface CacheListPage {
+  entries: { id: string; data: CachedEntry }[];
+  cursor?: string; // Absent on the last page
+}
+
+// The fields eviction ranks an entry by, without its prompt and embeddings
+export type EntryUsage = Pick<
+  CachedEntry,
+  "timestamp" | "hits" | "lastAccessed" | "pinned"
+>;
+
+export interface CacheUsagePage {
+  entries: { id: string; usage: EntryUsage }[];
+  cursor?: string; // Absent on the last page
+}
+
+// Storage backend for cache entries and their embeddings
+export interface VectorStore {
+  store(id: string, entry: CachedEntry): Promise<void>;
+  get(id: string): Promise<CachedEntry | null>;
+  search(
+    embedding: number[],
+    threshold: number,
+    scope?: CacheScope, // Omit to search across every partition
+    limit?: number
+  ): Promise<VectorSearchResult[]>;
+  delete(id: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  recordHit(id: string): Promise<void>;
+  count(): Promise<number>;
+  list(cursor?: string, limit?: number): Promise<CacheListPage>;
+  // Like list, with only the fields eviction needs
+  listUsage(cursor?: string, limit?: number): Promise<CacheUsagePage>;
+}
@@ -0,0 +1,60 @@
+// Vector store backend selection
+
+import { Env, VectorStore } from "./types";
+import { RedisVectorStore } from "./redis";
+import { VectorizeVectorStore } from "./vectorize";
+import { InMemoryVectorStore } from "./memory";
+import { getEmbeddingModel } from "./embeddings";
+import {
+  EncryptedVectorStore,
+  EntryCipher,
+  getEncryptionConfig,
+} from "./encryption";
+
+/**
+ * Create the vector store selected by the VECTOR_STORE env var, encrypting
+ * entries when CACHE_ENCRYPTION_KEYS is set
+ */
+export function createVectorStore(env: Env): VectorStore {
+  const store = createBackend(env);
+  const encryption = getEncryptionConfig(env);
+  return encryption
+    ? new EncryptedVectorStore(store, new EntryCipher(encryption))
+    : store;
+}
+
+function createBackend(env: Env): VectorStore {
+  const backend = env.VECTOR_STORE || "redis";
+  const embeddingModel = getEmbeddingModel(env);
+
+  if (backend === "memory") {
+    return new InMemoryVectorStore(embeddingModel);
+  }
+
+  if (backend === "vectorize") {
+    if (!env.VECTORIZE || !env.CACHE_ENTRIES) {
+      throw new Error(
+        "Vectorize store requires the VECTORIZE and CACHE_ENTRIES bindings."
+      );
+    }
+    return new VectorizeVectorStore(
+      env.VECTORIZE,
+      env.CACHE_ENTRIES,
+      embeddingModel
+    );
+  }
+
+  if (backend === "redis") {
+    if (!env.REDIS_URL || !env.REDIS_TOKEN) {
+      throw new Error("Redis store requires REDIS_URL and REDIS_TOKEN.");
+    }
+    return new RedisVectorStore(
+      env.REDIS_URL,
+      env.REDIS_TOKEN,
+      env.REDIS_VECTOR_ALGORITHM === "FLAT" ? "FLAT" : "HNSW",
+      embeddingModel
+    );
+  }
+
+  throw new Error(`Unknown VECTOR_STORE: ${backend}`);
+}
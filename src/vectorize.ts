@@ -0,0 +1,227 @@
+// Vector store backed by Cloudflare Vectorize with entry bodies in KV
+
+import {
+  CachedEntry,
+  CacheListPage,
+  CacheScope,
+  CacheUsagePage,
+  EntryUsage,
+  VectorSearchResult,
+  VectorStore,
+} from "./types";
+import { isExpired } from "./similarity";
+import { DEFAULT_EMBEDDING_MODEL } from "./embeddings";
+
+const KEY_PREFIX = "cache:";
+
+export class VectorizeVectorStore implements VectorStore {
+  private index: Vectorize;
+  private kv: KVNamespace;
+  private embeddingModel: string;
+
+  // Searches only consider vectors embedded with `embeddingModel`
+  constructor(
+    index: Vectorize,
+    kv: KVNamespace,
+    embeddingModel: string = DEFAULT_EMBEDDING_MODEL
+  ) {
+    this.index = index;
+    this.kv = kv;
+    this.embeddingModel = embeddingModel;
+  }
+
+  /**
+   * Store the embedding in Vectorize and the entry in KV
+   */
+  async store(id: string, entry: CachedEntry): Promise<void> {
+    await this.putEntry(id, entry);
+    await this.index.upsert([
+      {
+        id,
+        values: entry.embedding,
+        metadata: {
+          model: entry.model,
+          namespace: entry.namespace,
+          maxTokensBucket: entry.maxTokensBucket,
+          temperatureBucket: entry.temperatureBucket,
+          contextHash: entry.contextHash,
+          embeddingModel: entry.embeddingModel ?? DEFAULT_EMBEDDING_MODEL,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Fetch a single entry by id
+   */
+  async get(id: string): Promise<CachedEntry | null> {
+    const entry = await this.kv.get<CachedEntry>(KEY_PREFIX + id, "json");
+    if (!entry || isExpired(entry)) return null;
+    return entry;
+  }
+
+  /**
+   * Query Vectorize with a metadata filter for the request's partition.
+   * The index must use the cosine metric so scores are similarities.
+   */
+  async search(
+    embedding: number[],
+    threshold: number,
+    scope?: CacheScope,
+    limit: number = 1
+  ): Promise<VectorSearchResult[]> {
+    const filter: VectorizeVectorMetadataFilter = {
+      embeddingModel: this.embeddingModel,
+    };
+    if (scope) {
+      filter.namespace = scope.namespace;
+      filter.maxTokensBucket = scope.maxTokensBucket;
+      filter.temperatureBucket = scope.temperatureBucket;
+      filter.contextHash = scope.contextHash;
+      if (scope.model !== undefined) {
+        filter.model = scope.model;
+      }
+    }
+
+    // Vectorize caps topK at 100 when values and metadata are not returned
+    const { matches } = await this.index.query(embedding, {
+      topK: Math.min(limit, 100),
+      filter,
+    });
+
+    const results: VectorSearchResult[] = [];
+    for (const match of matches) {
+      if (match.score < threshold) continue;
+
+      // Vectors outlive their KV body once it expires, so clean them up here
+      const entry = await this.kv.get<CachedEntry>(
+        KEY_PREFIX + match.id,
+        "json"
+      );
+      if (!entry || isExpired(entry)) {
+        await this.index.deleteByIds([match.id]);
+        continue;
+      }
+
+      results.push({ id: match.id, score: match.score, data: entry });
+    }
+
+    return results;
+  }
+
+  /**
+   * Delete an entry from both Vectorize and KV
+   */
+  async delete(id: string): Promise<void> {
+    await this.index.deleteByIds([id]);
+    await this.kv.delete(KEY_PREFIX + id);
+  }
+
+  /**
+   * Delete several entries with one Vectorize call
+   */
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index.deleteByIds(ids);
+    await Promise.all(ids.map((id) => this.kv.delete(KEY_PREFIX + id)));
+  }
+
+  /**
+   * Bump the hit count and last-access time used for eviction.
+   * KV has no atomic increment, so concurrent hits may undercount.
+   */
+  async recordHit(id: string): Promise<void> {
+    const entry = await this.kv.get<CachedEntry>(KEY_PREFIX + id, "json");
+    if (!entry) return;
+
+    entry.hits = (entry.hits || 0) + 1;
+    entry.lastAccessed = Date.now();
+    await this.putEntry(id, entry);
+  }
+
+  /**
+   * Write the entry body, carrying its TTL over to KV. The eviction fields
+   * go in the key's metadata too, so listUsage() reads them from the
+   * listing.
+   */
+  private async putEntry(id: string, entry: CachedEntry): Promise<void> {
+    const metadata: EntryUsage = {
+      timestamp: entry.timestamp,
+      hits: entry.hits,
+      lastAccessed: entry.lastAccessed,
+      pinned: entry.pinned,
+    };
+    const options: KVNamespacePutOptions = { metadata };
+    if (entry.expiresAt !== undefined) {
+      // KV rejects expirations less than 60 seconds away
+      options.expirationTtl = Math.max(
+        60,
+        Math.ceil((entry.expiresAt - Date.now()) / 1000)
+      );
+    }
+    await this.kv.put(KEY_PREFIX + id, JSON.stringify(entry), options);
+  }
+
+  /**
+   * Count vectors in the index
+   */
+  async count(): Promise<number> {
+    const info = await this.index.describe();
+    return info.vectorCount;
+  }
+
+  /**
+   * Page through entries using the KV key listing
+   */
+  async list(cursor?: string, limit: number = 50): Promise<CacheListPage> {
+    const page = await this.kv.list({ prefix: KEY_PREFIX, cursor, limit });
+
+    const entries: CacheListPage["entries"] = [];
+    for (const key of page.keys) {
+      const entry = await this.kv.get<CachedEntry>(key.name, "json");
+      if (!entry) continue;
+      entries.push({ id: key.name.slice(KEY_PREFIX.length), data: entry });
+    }
+
+    return {
+      entries,
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  /**
+   * Page through the eviction fields of entries from the KV key metadata.
+   * Entries written before it was kept there are read in full.
+   */
+  async listUsage(
+    cursor?: string,
+    limit: number = 50
+  ): Promise<CacheUsagePage> {
+    const page = await this.kv.list<EntryUsage>({
+      prefix: KEY_PREFIX,
+      cursor,
+      limit,
+    });
+
+    const entries: CacheUsagePage["entries"] = [];
+    for (const key of page.keys) {
+      let usage: EntryUsage | null = key.metadata ?? null;
+      if (!usage) {
+        const entry = await this.kv.get<CachedEntry>(key.name, "json");
+        if (!entry) continue;
+        usage = {
+          timestamp: entry.timestamp,
+          hits: entry.hits,
+          lastAccessed: entry.lastAccessed,
+          pinned: entry.pinned,
+        };
+      }
+      entries.push({ id: key.name.slice(KEY_PREFIX.length), usage });
+    }
+
+    return {
+      entries,
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+// Write policy: which fresh responses are kept out of the cache
+
+import { Env } from "./types";
+
+export type WriteSkipReason =
+  | "empty" // No text, e.g. an Anthropic reply without a text block
+  | "malformed" // The provider's raw payload, returned because it had no text
+  | "truncated" // Cut off by max_tokens
+  | "temperature" // Sampled above CACHE_MAX_TEMPERATURE
+  | "prompt_length" // Prompt outside the configured length limits
+  | "denied" // Prompt or response matches CACHE_DENY_PATTERNS
+  | "sensitive"; // Sensitive data, with REDACTION_MODE "refuse"
+
+export interface WritePolicy {
+  cacheTruncated: boolean;
+  maxTemperature?: number;
+  minPromptLength?: number; // Characters
+  maxPromptLength?: number;
+  denyPatterns: RegExp[]; // Tested against the prompt and the response
+}
+
+// What the policy looks at in a fresh response
+export interface WriteCandidate {
+  prompt: string;
+  text: string;
+  temperature: number;
+  finishReason?: "stop" | "length";
+  malformed?: boolean;
+}
+
+function parseOptional(value: string | undefined): number | undefined {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function getWritePolicy(env: Env): WritePolicy {
+  const denyPatterns: RegExp[] = [];
+  try {
+    const sources: string[] = env.CACHE_DENY_PATTERNS
+      ? JSON.parse(env.CACHE_DENY_PATTERNS)
+      : [];
+    for (const source of sources) {
+      denyPatterns.push(new RegExp(source, "i"));
+    }
+  } catch (e) {
+    console.error("Ignoring invalid CACHE_DENY_PATTERNS:", e);
+  }
+
+  return {
+    cacheTruncated: env.CACHE_TRUNCATED_RESPONSES === "true",
+    maxTemperature: parseOptional(env.CACHE_MAX_TEMPERATURE),
+    minPromptLength: parseOptional(env.CACHE_MIN_PROMPT_LENGTH),
+    maxPromptLength: parseOptional(env.CACHE_MAX_PROMPT_LENGTH),
+    denyPatterns,
+  };
+}
+
+/**
+ * Why a response may not be cached, or null when it may
+ */
+export function writeSkipReason(
+  policy: WritePolicy,
+  candidate: WriteCandidate
+): WriteSkipReason | null {
+  if (candidate.malformed) return "malformed";
+  if (candidate.text.trim() === "") return "empty";
+  if (candidate.finishReason === "length" && !policy.cacheTruncated) {
+    return "truncated";
+  }
+  if (
+    policy.maxTemperature !== undefined &&
+    candidate.temperature > policy.maxTemperature
+  ) {
+    return "temperature";
+  }
+  if (
+    (policy.minPromptLength !== undefined &&
+      candidate.prompt.length < policy.minPromptLength) ||
+    (policy.maxPromptLength !== undefined &&
+      candidate.prompt.length > policy.maxPromptLength)
+  ) {
+    return "prompt_length";
+  }
+  if (
+    policy.denyPatterns.some(
+      (pattern) =>
+        pattern.test(candidate.prompt) || pattern.test(candidate.text)
+    )
+  ) {
+    return "denied";
+  }
+  return null;
+}
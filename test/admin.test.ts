@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../src/index";
+import { handleAdminRequest } from "../src/admin";
+import { PromptCache, buildCacheScope, hashContext } from "../src/cache";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const ADMIN_TOKEN = "admin-secret";
+
+function adminRequest(
+  env: ReturnType<typeof testEnv>,
+  path: string,
+  init: RequestInit = {}
+) {
+  const url = new URL(`https://cache.test${path}`);
+  const request = new Request(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, ...init.headers },
+  });
+  return handleAdminRequest(request, env, url, {});
+}
+
+async function fill(cache: PromptCache, namespace: string, prompts: string[]) {
+  const scope = buildCacheScope(
+    MODEL,
+    256,
+    0,
+    await hashContext([]),
+    namespace
+  );
+  for (const prompt of prompts) {
+    await cache.cacheResponse(prompt, `Answer to ${prompt}`, MODEL, scope);
+  }
+}
+
+describe("admin API", () => {
+  it("deletes similar entries past a page the filter excludes", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    const cache = new PromptCache(env);
+    const others = Array.from({ length: 150 }, (_, i) => `refund policy ${i}`);
+    const support = Array.from(
+      { length: 5 },
+      (_, i) => `refund policy support ticket ${i}`
+    );
+    await fill(cache, "other", others);
+    await fill(cache, "support", support);
+
+    const response = await adminRequest(env, "/admin/entries/delete-similar", {
+      method: "POST",
+      body: JSON.stringify({
+        prompt: "refund policy",
+        threshold: 0.5,
+        namespace: "support",
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ deleted: 5 });
+    expect((await cache.getStats()).size).toBe(150);
+  });
+
+  it("falls back to the default page size for an invalid limit", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    await fill(new PromptCache(env), "default", ["alpha", "bravo"]);
+
+    const response = await adminRequest(env, "/admin/entries?limit=abc");
+
+    expect(response.status).toBe(200);
+    const body: { entries: unknown[] } = await response.json();
+    expect(body.entries).toHaveLength(2);
+  });
+
+  it("lists the deployment details of models to admins only", async () => {
+    const local = {
+      id: "local-model",
+      provider: "openai-compatible",
+      upstream: "meta-llama/Llama-3.1-8B-Instruct",
+      baseUrl: "http://vllm.internal:8000/v1",
+      contextWindow: 8192,
+    };
+    const env = testEnv({ ADMIN_TOKEN, MODELS: JSON.stringify([local]) });
+
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request("https://cache.test/models"),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    const { models } = await response.json<{ models: object[] }>();
+    expect(models).toContainEqual({
+      id: "local-model",
+      provider: "openai-compatible",
+      contextWindow: 8192,
+    });
+
+    const admin = await adminRequest(env, "/admin/models");
+    expect((await admin.json<{ models: object[] }>()).models).toContainEqual(
+      local
+    );
+  });
+
+  it("answers a malformed JSON body with 400", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+
+    for (const body of ["{not json", "null", "[]"]) {
+      const response = await adminRequest(
+        env,
+        "/admin/entries/delete-similar",
+        { method: "POST", body }
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("refuses a threshold or max_age that would delete or list too much", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    await fill(new PromptCache(env), "default", ["alpha"]);
+
+    for (const fields of [
+      { threshold: 0 },
+      { threshold: -1 },
+      { threshold: 1.5 },
+      { threshold: 0.9, max_age: "abc" },
+      { threshold: 0.9, max_age: -60 },
+    ]) {
+      const response = await adminRequest(
+        env,
+        "/admin/entries/delete-similar",
+        {
+          method: "POST",
+          body: JSON.stringify({ prompt: "alpha", ...fields }),
+        }
+      );
+      expect(response.status).toBe(400);
+    }
+    for (const maxAge of ["abc", "-1", ""]) {
+      const response = await adminRequest(
+        env,
+        `/admin/entries?max_age=${maxAge}`
+      );
+      expect(response.status).toBe(400);
+    }
+    expect((await new PromptCache(env).getStats()).size).toBe(1);
+  });
+});
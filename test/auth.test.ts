@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { handleAdminRequest } from "../src/admin";
+import { ApiKeyStore, admitRequest } from "../src/auth";
+import { FakeRedis, REDIS_URL } from "./fake-redis";
+import { testEnv } from "./helpers";
+
+const ADMIN_TOKEN = "admin-secret";
+
+async function issueKey(env: ReturnType<typeof testEnv>, body: object) {
+  const url = new URL("https://cache.test/admin/keys");
+  const request = new Request(url, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    body: JSON.stringify(body),
+  });
+  return handleAdminRequest(request, env, url, {});
+}
+
+async function admit(env: ReturnType<typeof testEnv>, key: string) {
+  const ctx = createExecutionContext();
+  const admission = await admitRequest(
+    new Request("https://cache.test/chat", {
+      headers: { Authorization: `Bearer ${key}` },
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return admission;
+}
+
+describe("API key limits", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("refuses to issue keys with limits without Redis", async () => {
+    const env = testEnv({ ADMIN_TOKEN, ALLOW_ANONYMOUS: "false" });
+
+    const limited = await issueKey(env, {
+      tenant: "acme",
+      rate_limit_per_minute: 10,
+    });
+    expect(limited.status).toBe(400);
+
+    const unlimited = await issueKey(env, { tenant: "acme" });
+    expect(unlimited.status).toBe(201);
+    const { key }: { key: string } = await unlimited.json();
+    expect((await admit(env, key)).ok).toBe(true);
+  });
+
+  it("refuses keys with limits when Redis is not configured", async () => {
+    const env = testEnv({ ALLOW_ANONYMOUS: "false" });
+    const { key } = await new ApiKeyStore(env.CACHE_STATS).create({
+      tenant: "acme",
+      monthlyRequestQuota: 100,
+      createdAt: Date.now(),
+    });
+
+    expect(await admit(env, key)).toMatchObject({ ok: false, status: 503 });
+  });
+
+  it("enforces the rate limit with Redis", async () => {
+    // Fixed inside one window
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Math.floor(Date.now() / 60_000) * 60_000 + 1000);
+    new FakeRedis();
+    const env = testEnv({
+      ADMIN_TOKEN,
+      ALLOW_ANONYMOUS: "false",
+      REDIS_URL,
+      REDIS_TOKEN: "token",
+    });
+    const response = await issueKey(env, {
+      tenant: "acme",
+      rate_limit_per_minute: 2,
+    });
+    expect(response.status).toBe(201);
+    const { key }: { key: string } = await response.json();
+
+    expect((await admit(env, key)).ok).toBe(true);
+    expect((await admit(env, key)).ok).toBe(true);
+    expect(await admit(env, key)).toMatchObject({ ok: false, status: 429 });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { coalesce } from "../src/coalesce";
+import { completeWithCache } from "../src/chat";
+import { FakeRedis, REDIS_URL } from "./fake-redis";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+function redisEnv() {
+  return testEnv({
+    REDIS_URL,
+    REDIS_TOKEN: "token",
+    COALESCE_TIMEOUT_SECONDS: "5",
+  });
+}
+
+describe("request coalescing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lets one of several concurrent misses call the provider", async () => {
+    new FakeRedis();
+    const env = redisEnv();
+    // Slow the provider down so the others find the lock taken
+    const run = env.AI.run;
+    env.AI.run = async (model: string, input: any, options?: unknown) => {
+      if (input.messages) await new Promise((r) => setTimeout(r, 100));
+      return run(model, input, options);
+    };
+
+    const results = await Promise.all(
+      [1, 2, 3].map(async () => {
+        const ctx = createExecutionContext();
+        const result = await completeWithCache(
+          {
+            messages: [{ role: "user", content: "What is coalescing?" }],
+            model: MODEL,
+            maxTokens: 256,
+            temperature: 0,
+          },
+          env,
+          ctx
+        );
+        await waitOnExecutionContext(ctx);
+        return result;
+      })
+    );
+
+    expect(env.AI.completionCalls).toBe(1);
+    expect(results.filter((r) => r.cached)).toHaveLength(2);
+    expect(new Set(results.map((r) => r.text)).size).toBe(1);
+  });
+
+  it("holds the lock for the provider call's whole budget", async () => {
+    const redis = new FakeRedis();
+    const startedAt = Date.now();
+    await coalesce(redisEnv(), "key", MODEL, async () => null);
+
+    // Three 30 second attempts, their backoff and the margin
+    const ttlMs = redis.expiries.get("inflight:key")! - startedAt;
+    expect(ttlMs).toBeGreaterThanOrEqual(100_000);
+  });
+
+  it("never releases a lock another request took", async () => {
+    const redis = new FakeRedis();
+    const { release } = await coalesce(
+      redisEnv(),
+      "key",
+      MODEL,
+      async () => null
+    );
+
+    // The lock expired and another request became the leader
+    redis.strings.set("inflight:key", "other-token");
+    await release!();
+
+    expect(redis.strings.get("inflight:key")).toBe("other-token");
+  });
+});
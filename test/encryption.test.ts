@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  createScheduledController,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../src/index";
+import {
+  PromptCache,
+  buildCacheScope,
+  exactMatchId,
+  hashContext,
+} from "../src/cache";
+import { createCalibrationStore } from "../src/calibration";
+import { createMetaStore } from "../src/meta-store";
+import { runReencrypt, startReencrypt } from "../src/reencrypt";
+import { runReembed, startReembed } from "../src/reembed";
+import { fakeEmbedding, testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const OLD_KEY = btoa("o".repeat(32));
+const NEW_KEY = btoa("n".repeat(32));
+
+function keys(keys: Record<string, string>, currentKeyId: string) {
+  return {
+    CACHE_ENCRYPTION_KEYS: JSON.stringify(keys),
+    CACHE_ENCRYPTION_KEY_ID: currentKeyId,
+  };
+}
+
+async function fill(env: ReturnType<typeof testEnv>, prompts: string[]) {
+  const cache = new PromptCache(env);
+  const scope = await defaultScope();
+  const ids = [];
+  for (const prompt of prompts) {
+    ids.push(
+      await cache.cacheResponse(prompt, `Answer to ${prompt}`, MODEL, scope)
+    );
+  }
+  return ids;
+}
+
+async function defaultScope() {
+  return buildCacheScope(MODEL, 256, 0, await hashContext([]));
+}
+
+async function entryId(env: ReturnType<typeof testEnv>, prompt: string) {
+  return new PromptCache(env).entryId(prompt, MODEL, await defaultScope());
+}
+
+describe("encryption at rest", () => {
+  it("stores entries encrypted and serves them decrypted", async () => {
+    const env = testEnv(keys({ old: OLD_KEY }, "old"));
+    const [id] = await fill(env, ["What is the capital of France?"]);
+
+    // Read back without the keys
+    const stored = await new PromptCache({
+      ...env,
+      CACHE_ENCRYPTION_KEYS: undefined,
+    }).getEntry(id);
+    expect(stored?.prompt).toMatch(/^enc:old:/);
+    expect(stored?.response).toMatch(/^enc:old:/);
+
+    const entry = await new PromptCache(env).getEntry(id);
+    expect(entry?.prompt).toBe("What is the capital of France?");
+  });
+
+  it("keys entry ids with the encryption key", async () => {
+    const env = testEnv(keys({ old: OLD_KEY }, "old"));
+    const prompt = "What is the capital of France?";
+    const [id] = await fill(env, [prompt]);
+
+    expect(id).not.toBe(
+      await exactMatchId(prompt, MODEL, await defaultScope())
+    );
+    expect(id).not.toBe(
+      await entryId(testEnv(keys({ new: NEW_KEY }, "new")), prompt)
+    );
+    expect(id).toBe(await entryId(env, prompt));
+  });
+
+  it("encrypts the prompts of calibration samples", async () => {
+    const env = testEnv(keys({ old: OLD_KEY }, "old"));
+    const sample = {
+      id: crypto.randomUUID(),
+      prompt: "What is the capital of Spain?",
+      candidateId: "entry",
+      candidatePrompt: "What is the capital of France?",
+      similarity: 0.85,
+      threshold: 0.9,
+      served: false,
+      model: MODEL,
+      namespace: "default",
+      timestamp: Date.now(),
+    };
+    await createCalibrationStore(env).record(sample);
+
+    const raw = await env.CACHE_STATS.get(`calibration:${sample.id}`);
+    expect(raw).not.toContain("capital");
+    expect(await createCalibrationStore(env).get(sample.id)).toEqual(sample);
+  });
+
+  it("re-encrypts entries with the new key on rotation", async () => {
+    const before = testEnv(keys({ old: OLD_KEY }, "old"));
+    const prompts = ["alpha", "bravo", "charlie"];
+    const ids = await fill(before, prompts);
+
+    const env = { ...before, ...keys({ old: OLD_KEY, new: NEW_KEY }, "new") };
+    await startReencrypt(env);
+    const state = await runReencrypt(env);
+    expect(state).toMatchObject({ reencrypted: 3, failed: 0 });
+
+    // The old key can go; entries moved to the ids keyed by the new one
+    const after = { ...before, ...keys({ new: NEW_KEY }, "new") };
+    const cache = new PromptCache(after);
+    for (const [i, prompt] of prompts.entries()) {
+      expect(await cache.getEntry(ids[i])).toBeNull();
+      expect(
+        await cache.findExactCache(prompt, MODEL, await defaultScope())
+      ).toMatchObject({ entry: { encryptionKeyId: "new" } });
+    }
+  });
+
+  it("fails to re-embed entries encrypted with a key that is gone", async () => {
+    const before = testEnv(keys({ old: OLD_KEY }, "old"));
+    const [id] = await fill(before, ["What is the capital of France?"]);
+    const stored = await new PromptCache(before).getEntry(id);
+
+    const env = {
+      ...before,
+      ...keys({ new: NEW_KEY }, "new"),
+      EMBEDDING_MODEL: "@cf/baai/bge-small-en-v1.5",
+    };
+    await startReembed(env);
+    expect(await runReembed(env)).toMatchObject({
+      scanned: 1,
+      migrated: 0,
+      failed: 1,
+    });
+
+    // Still readable, and not encrypted twice, once the key is back
+    expect(await new PromptCache(before).getEntry(id)).toEqual(stored);
+  });
+
+  it("re-encrypts at most the entries a run allows", async () => {
+    const before = testEnv(keys({ old: OLD_KEY }, "old"));
+    await fill(before, ["alpha", "bravo", "charlie"]);
+    const env = { ...before, ...keys({ old: OLD_KEY, new: NEW_KEY }, "new") };
+    await startReencrypt(env);
+
+    const first = await runReencrypt(env, 20_000, 2);
+    expect(first).toMatchObject({ scanned: 2 });
+    expect(first?.finishedAt).toBeUndefined();
+    expect(await runReencrypt(env, 20_000, 2)).toMatchObject({
+      reencrypted: 3,
+      finishedAt: expect.any(Number),
+    });
+  });
+
+  it("waits while another job rewrites entries", async () => {
+    const before = testEnv(keys({ old: OLD_KEY }, "old"));
+    await fill(before, ["alpha"]);
+    const env = { ...before, ...keys({ old: OLD_KEY, new: NEW_KEY }, "new") };
+    await startReencrypt(env);
+
+    const store = createMetaStore(env);
+    await store.acquire("lock:entry-jobs", "other", 60);
+    try {
+      expect(await runReencrypt(env)).toMatchObject({ scanned: 0 });
+    } finally {
+      await store.release("lock:entry-jobs", "other");
+    }
+    expect(await runReencrypt(env)).toMatchObject({ scanned: 1 });
+  });
+
+  it("keeps pins and negatives through a scheduled re-embedding and rotation", async () => {
+    const before = testEnv(keys({ old: OLD_KEY }, "old"));
+    const [id] = await fill(before, ["What is the capital of France?"]);
+    const cache = new PromptCache(before);
+    await cache.setPinned(id, true);
+    const negative = "What is the capital of Spain?";
+    await cache.recordFalseHit(id, {
+      prompt: negative,
+      embedding: fakeEmbedding(negative),
+    });
+
+    const env = {
+      ...before,
+      ...keys({ old: OLD_KEY, new: NEW_KEY }, "new"),
+      EMBEDDING_MODEL: "@cf/baai/bge-small-en-v1.5",
+    };
+    await startReembed(env);
+    await startReencrypt(env);
+    const ctx = createExecutionContext();
+    await worker.scheduled(createScheduledController(), env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    const entry = await new PromptCache(env).getEntry(
+      await entryId(env, "What is the capital of France?")
+    );
+    expect(entry).toMatchObject({
+      pinned: true,
+      embeddingModel: "@cf/baai/bge-small-en-v1.5",
+      encryptionKeyId: "new",
+    });
+    expect(entry?.negatives?.map((n) => n.prompt)).toEqual([negative]);
+  });
+});
@@ -0,0 +1,8 @@
+// Bindings vitest.config.mts gives the test worker
+
+declare namespace Cloudflare {
+  interface Env {
+    CACHE_STATS: KVNamespace;
+    CACHE_ENTRIES: KVNamespace;
+  }
+}
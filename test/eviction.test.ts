@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { PromptCache, buildCacheScope, hashContext } from "../src/cache";
+import { completeWithCache } from "../src/chat";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+// Stores one entry per prompt, a second apart, and returns their ids
+async function fill(cache: PromptCache, prompts: string[]) {
+  const scope = buildCacheScope(MODEL, 256, 0, await hashContext([]));
+  const ids: string[] = [];
+  for (const [i, prompt] of prompts.entries()) {
+    vi.setSystemTime(1_000_000 + i * 1000);
+    ids.push(await cache.cacheResponse(prompt, `Answer ${i}`, MODEL, scope));
+  }
+  return ids;
+}
+
+async function remaining(cache: PromptCache, ids: string[]) {
+  const present = [];
+  for (const id of ids) {
+    if (await cache.getEntry(id)) present.push(id);
+  }
+  return present;
+}
+
+describe("eviction", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entries beyond the limit", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const env = testEnv({ CACHE_MAX_ENTRIES: "2" });
+    const cache = new PromptCache(env);
+    const [a, b, c] = await fill(cache, ["alpha", "bravo", "charlie"]);
+
+    vi.setSystemTime(2_000_000);
+    await cache.recordHit(a);
+
+    expect(await cache.enforceMaxEntries()).toBe(1);
+    expect(await remaining(cache, [a, b, c])).toEqual([a, c]);
+  });
+
+  it("evicts the least frequently used entries under lfu", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const env = testEnv({
+      CACHE_MAX_ENTRIES: "1",
+      CACHE_EVICTION_POLICY: "lfu",
+    });
+    const cache = new PromptCache(env);
+    const [a, b, c] = await fill(cache, ["alpha", "bravo", "charlie"]);
+
+    await cache.recordHit(a);
+    await cache.recordHit(a);
+    await cache.recordHit(c);
+
+    expect(await cache.enforceMaxEntries()).toBe(2);
+    expect(await remaining(cache, [a, b, c])).toEqual([a]);
+  });
+
+  it("never evicts pinned entries", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const env = testEnv({ CACHE_MAX_ENTRIES: "1" });
+    const cache = new PromptCache(env);
+    const [a, b, c] = await fill(cache, ["alpha", "bravo", "charlie"]);
+    await cache.setPinned(a, true);
+
+    expect(await cache.enforceMaxEntries()).toBe(2);
+    expect(await remaining(cache, [a, b, c])).toEqual([a]);
+  });
+
+  it("leaves eviction to the cron trigger on a miss", async () => {
+    const env = testEnv({ CACHE_MAX_ENTRIES: "1" });
+    for (const prompt of ["alpha", "bravo", "charlie"]) {
+      const ctx = createExecutionContext();
+      await completeWithCache(
+        {
+          messages: [{ role: "user", content: prompt }],
+          model: MODEL,
+          maxTokens: 256,
+          temperature: 0,
+        },
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+    }
+
+    const cache = new PromptCache(env);
+    expect((await cache.getStats()).size).toBe(3);
+    expect(await cache.enforceMaxEntries()).toBe(2);
+    expect((await cache.getStats()).size).toBe(1);
+  });
+});
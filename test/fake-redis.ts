@@ -0,0 +1,294 @@
+// Fake Upstash REST endpoint for the commands the Worker sends, served
+// through a stubbed global fetch
+
+import { vi } from "vitest";
+import { cosineSimilarity } from "../src/similarity";
+
+export const REDIS_URL = "https://fake-redis.test";
+
+type Handler = (args: string[]) => unknown;
+
+// JSON properties of the fields the vector index declares
+const INDEX_FIELDS: Record<string, string> = {
+  model: "model",
+  namespace: "namespace",
+  max_tokens_bucket: "maxTokensBucket",
+  temperature_bucket: "temperatureBucket",
+  context_hash: "contextHash",
+  embedding_model: "embeddingModel",
+};
+
+/**
+ * The bytes the server sees for a string argument, one character per byte.
+ * Arguments in a JSON body or the URL path arrive UTF-8 encoded.
+ */
+function toByteString(value: string): string {
+  return String.fromCharCode(...new TextEncoder().encode(value));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${source}$`);
+}
+
+export class FakeRedis {
+  strings = new Map<string, string>();
+  hashes = new Map<string, Map<string, string>>();
+  expiries = new Map<string, number>();
+  commands: string[][] = [];
+  // Per-command overrides, e.g. to make FT.SEARCH fail
+  handlers: Record<string, Handler> = {};
+
+  constructor() {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = typeof input === "string" ? input : (input as Request).url;
+      if (!url.startsWith(REDIS_URL)) {
+        throw new Error(`Unexpected fetch: ${url}`);
+      }
+      const path = url.slice(REDIS_URL.length);
+      const pipeline = path === "/pipeline";
+      const json = pipeline || path === "";
+      let commands: string[][];
+      if (json) {
+        const body = JSON.parse(init!.body as string);
+        commands = pipeline ? body : [body];
+      } else {
+        // Path-style command: the raw request body is the last argument
+        const bytes = new Uint8Array(init!.body as Uint8Array);
+        commands = [
+          [
+            ...path.slice(1).split("/").map(decodeURIComponent),
+            String.fromCharCode(...bytes),
+          ],
+        ];
+      }
+      // Only FT.SEARCH reads an argument as binary (the query vector), so
+      // only its other arguments are turned into the bytes the server sees
+      commands = commands.map((command) =>
+        json && String(command[0]).toUpperCase() === "FT.SEARCH"
+          ? command.map((arg) => toByteString(String(arg)))
+          : command
+      );
+
+      const replies = commands.map((command) => {
+        try {
+          return { result: this.execute(command.map(String)) };
+        } catch (e: any) {
+          return { error: e.message };
+        }
+      });
+      if (pipeline) return Response.json(replies);
+      const [reply] = replies;
+      return Response.json(reply, { status: reply.error ? 400 : 200 });
+    });
+  }
+
+  execute(command: string[]): unknown {
+    this.commands.push(command);
+    const [name, ...args] = command;
+    const handler = this.handlers[name.toUpperCase()];
+    if (handler) return handler(args);
+    this.dropExpired();
+
+    switch (name.toUpperCase()) {
+      case "JSON.SET": {
+        const [key, path, value] = args;
+        if (path === "$") {
+          this.strings.set(key, value);
+        } else {
+          const document = JSON.parse(this.strings.get(key)!);
+          document[path.slice(2)] = JSON.parse(value);
+          this.strings.set(key, JSON.stringify(document));
+        }
+        return "OK";
+      }
+      case "JSON.GET":
+        return this.strings.get(args[0]) ?? null;
+      case "JSON.NUMINCRBY": {
+        const [key, path, by] = args;
+        const document = JSON.parse(this.strings.get(key)!);
+        document[path.slice(2)] += Number(by);
+        this.strings.set(key, JSON.stringify(document));
+        return `[${document[path.slice(2)]}]`;
+      }
+      case "JSON.MGET": {
+        // Only the root and top-level fields ("$.field") are understood
+        const path = args[args.length - 1];
+        return args.slice(0, -1).map((key) => {
+          const json = this.strings.get(key);
+          if (json === undefined) return null;
+          if (path === "$") return `[${json}]`;
+          const document = JSON.parse(json);
+          const field = path.slice(2);
+          return JSON.stringify(field in document ? [document[field]] : []);
+        });
+      }
+      case "GET":
+        return this.strings.get(args[0]) ?? null;
+      case "SET": {
+        const [key, value, ...options] = args;
+        const upper = options.map((o) => o.toUpperCase());
+        if (upper.includes("NX") && this.strings.has(key)) return null;
+        this.strings.set(key, value);
+        this.expiries.delete(key);
+        const px = upper.indexOf("PX");
+        if (px !== -1) {
+          this.expiries.set(key, Date.now() + Number(options[px + 1]));
+        }
+        const ex = upper.indexOf("EX");
+        if (ex !== -1) {
+          this.expiries.set(key, Date.now() + Number(options[ex + 1]) * 1000);
+        }
+        return "OK";
+      }
+      case "INCR": {
+        const value = Number(this.strings.get(args[0]) ?? "0") + 1;
+        this.strings.set(args[0], value.toString());
+        return value;
+      }
+      case "EXISTS":
+        return args.filter((key) => this.exists(key)).length;
+      case "EXPIRE":
+        if (!this.exists(args[0])) return 0;
+        this.expiries.set(args[0], Date.now() + Number(args[1]) * 1000);
+        return 1;
+      case "HINCRBY":
+      case "HINCRBYFLOAT": {
+        const [key, field, by] = args;
+        const hash = this.hashes.get(key) ?? new Map<string, string>();
+        const value = Number(hash.get(field) ?? "0") + Number(by);
+        hash.set(field, value.toString());
+        this.hashes.set(key, hash);
+        return name.toUpperCase() === "HINCRBY" ? value : value.toString();
+      }
+      case "HGETALL":
+        return [...(this.hashes.get(args[0]) ?? [])].flat();
+      case "DEL": {
+        let deleted = 0;
+        for (const key of args) {
+          if (this.strings.delete(key) || this.hashes.delete(key)) deleted++;
+          this.expiries.delete(key);
+        }
+        return deleted;
+      }
+      case "KEYS": {
+        const pattern = globToRegExp(args[0]);
+        return [...this.strings.keys()].filter((key) => pattern.test(key));
+      }
+      case "SCAN": {
+        const pattern = globToRegExp(args[2]);
+        return [
+          "0",
+          [...this.strings.keys()].filter((key) => pattern.test(key)),
+        ];
+      }
+      case "PEXPIREAT":
+        this.expiries.set(args[0], Number(args[1]));
+        return 1;
+      case "PEXPIRE":
+        if (!this.strings.has(args[0])) return 0;
+        this.expiries.set(args[0], Date.now() + Number(args[1]));
+        return 1;
+      case "PERSIST":
+        return this.expiries.delete(args[0]) ? 1 : 0;
+      case "EVAL": {
+        // Only the compare-and-delete script is understood
+        const [script, , key, token] = args;
+        if (!/GET.*DEL/s.test(script)) throw new Error("ERR unknown script");
+        if (this.strings.get(key) !== token) return 0;
+        this.strings.delete(key);
+        this.expiries.delete(key);
+        return 1;
+      }
+      case "FT.INFO":
+      case "FT.CREATE":
+        return "OK";
+      case "FT.SEARCH":
+        return this.search(args);
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  /**
+   * KNN query over the JSON documents of the index's dimension, filtered
+   * by the TAG and NUMERIC clauses of the query
+   */
+  private search([index, query, ...options]: string[]): unknown {
+    const dimension = Number(index.slice(index.lastIndexOf(":") + 1));
+    const params: Record<string, string> = {};
+    const at = options.indexOf("PARAMS");
+    if (at !== -1) {
+      const count = Number(options[at + 1]);
+      for (let i = 0; i < count; i += 2) {
+        params[options[at + 2 + i]] = options[at + 3 + i];
+      }
+    }
+
+    const blob = params.vec;
+    if (!blob) throw new Error("ERR only KNN queries are supported");
+    if (blob.length !== dimension * 4) {
+      throw new Error(
+        `Error parsing vector similarity query: query vector blob size (${blob.length}) does not match index's expected size (${dimension * 4}).`
+      );
+    }
+    const bytes = Uint8Array.from(blob, (c) => c.charCodeAt(0));
+    const vector = [...new Float32Array(bytes.buffer)];
+
+    const filters: [string, (value: unknown) => boolean][] = [];
+    for (const [, field, tag, min, max] of query.matchAll(
+      /@(\w+):(?:\{((?:\\.|[^}])*)\}|\[(\S+) (\S+)\])/g
+    )) {
+      if (field === "embedding") continue;
+      const property = INDEX_FIELDS[field];
+      if (tag !== undefined) {
+        const value = tag.replace(/\\(.)/g, "$1");
+        filters.push([property, (v) => v === value]);
+      } else {
+        filters.push([
+          property,
+          (v) => typeof v === "number" && v >= Number(min) && v <= Number(max),
+        ]);
+      }
+    }
+
+    const matches: [string, string, number][] = [];
+    for (const [key, json] of this.strings) {
+      if (!key.startsWith("cache:")) continue;
+      const document = JSON.parse(json);
+      if (document.embedding?.length !== dimension) continue;
+      if (!filters.every(([property, test]) => test(document[property]))) {
+        continue;
+      }
+      matches.push([
+        key,
+        json,
+        1 - cosineSimilarity(vector, document.embedding),
+      ]);
+    }
+    matches.sort((a, b) => a[2] - b[2]);
+
+    const reply: unknown[] = [matches.length];
+    for (const [key, json, score] of matches.slice(0, Number(params.k))) {
+      reply.push(key, ["$", json, "vector_score", score.toString()]);
+    }
+    return reply;
+  }
+
+  private exists(key: string): boolean {
+    return this.strings.has(key) || this.hashes.has(key);
+  }
+
+  private dropExpired() {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.expiries) {
+      if (expiresAt <= now) {
+        this.strings.delete(key);
+        this.hashes.delete(key);
+        this.expiries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { ApiKeyStore, AuthContext } from "../src/auth";
+import { sha256Hex } from "../src/hash";
+import { completeWithCache } from "../src/chat";
+import { handleFeedback } from "../src/feedback";
+import { PromptCache } from "../src/cache";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+async function issueKey(env: ReturnType<typeof testEnv>, tenant: string) {
+  const { id, key, record } = await new ApiKeyStore(env.CACHE_STATS).create({
+    tenant,
+    createdAt: Date.now(),
+  });
+  return { key, auth: { keyId: id, record } as AuthContext };
+}
+
+async function complete(
+  env: ReturnType<typeof testEnv>,
+  prompt: string,
+  auth?: AuthContext
+) {
+  const ctx = createExecutionContext();
+  const result = await completeWithCache(
+    {
+      messages: [{ role: "user", content: prompt }],
+      model: MODEL,
+      maxTokens: 256,
+      temperature: 0,
+      auth,
+    },
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return result;
+}
+
+async function feedback(
+  env: ReturnType<typeof testEnv>,
+  body: object,
+  key?: string
+) {
+  const ctx = createExecutionContext();
+  const response = await handleFeedback(
+    new Request("https://cache.test/feedback", {
+      method: "POST",
+      headers: key ? { Authorization: `Bearer ${key}` } : {},
+      body: JSON.stringify(body),
+    }),
+    env,
+    ctx,
+    {}
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("feedback", () => {
+  // A keyed request served the entry cached for a similar prompt
+  async function semanticHit(env: ReturnType<typeof testEnv>) {
+    const { key, auth } = await issueKey(env, "acme");
+    await complete(env, "capital city of france please", auth);
+    const hit = await complete(env, "capital city of germany please", auth);
+    expect(hit.cached).toBe(true);
+    return { key, requestId: hit.requestId };
+  }
+
+  it("keeps only a hash of the prompt in the hit log", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.7" });
+    const { requestId } = await semanticHit(env);
+
+    const logged = await env.CACHE_STATS.get<Record<string, unknown>>(
+      `hit:${requestId}`,
+      "json"
+    );
+    expect(logged).toMatchObject({
+      promptHash: await sha256Hex("capital city of germany please"),
+      tenant: "acme",
+    });
+    expect(logged).not.toHaveProperty("prompt");
+    expect(logged).not.toHaveProperty("embedding");
+  });
+
+  it("adds the reported prompt as a negative example", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.7" });
+    const { key, requestId } = await semanticHit(env);
+
+    const response = await feedback(
+      env,
+      { request_id: requestId, prompt: "capital city of germany please" },
+      key
+    );
+    expect(response.status).toBe(200);
+    const body: { action: string; entry_id: string } = await response.json();
+    expect(body.action).toBe("negative");
+
+    const entry = await new PromptCache(env).getEntry(body.entry_id);
+    expect(entry?.negatives?.map((n) => n.prompt)).toEqual([
+      "capital city of germany please",
+    ]);
+    expect(entry?.negatives?.[0].embedding).toHaveLength(64);
+  });
+
+  it("rejects a prompt that does not match the request", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.7" });
+    const { key, requestId } = await semanticHit(env);
+
+    const response = await feedback(
+      env,
+      { request_id: requestId, prompt: "something else entirely" },
+      key
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("only flags a report without a prompt", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.7" });
+    const { key, requestId } = await semanticHit(env);
+
+    const response = await feedback(env, { request_id: requestId }, key);
+    const body: { action: string; entry_id: string } = await response.json();
+    expect(body.action).toBe("flag");
+    const entry = await new PromptCache(env).getEntry(body.entry_id);
+    expect(entry).toMatchObject({ falseHits: 1 });
+    expect(entry?.negatives).toBeUndefined();
+  });
+
+  it("requires an API key of the requesting tenant", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.7" });
+    const { requestId } = await semanticHit(env);
+    const other = await issueKey(env, "globex");
+
+    expect((await feedback(env, { request_id: requestId })).status).toBe(401);
+    expect(
+      (await feedback(env, { request_id: requestId }, other.key)).status
+    ).toBe(404);
+  });
+
+  it("does not log anonymous hits", async () => {
+    const env = testEnv();
+    await complete(env, "capital city of france please");
+    const hit = await complete(env, "capital city of france please");
+    expect(hit.cached).toBe(true);
+
+    expect(await env.CACHE_STATS.get(`hit:${hit.requestId}`)).toBeNull();
+  });
+});
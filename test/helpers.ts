@@ -0,0 +1,83 @@
+// Test environment: the in-memory vector store, the test worker's KV
+// namespaces and a fake Workers AI binding
+
+import { env as workerEnv } from "cloudflare:workers";
+import { Env } from "../src/types";
+import { clearInMemoryStore } from "../src/memory";
+
+const DIMENSIONS = 64;
+
+/**
+ * Deterministic bag-of-words embedding: prompts sharing words are similar
+ */
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array(DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % DIMENSIONS] += 1;
+  }
+  return vector;
+}
+
+export interface FakeAI {
+  embeddingCalls: number;
+  completionCalls: number;
+  run(model: string, input: any, options?: unknown): Promise<any>;
+}
+
+/**
+ * Workers AI stand-in: embeds with fakeEmbedding and answers every chat
+ * completion with `answer` (by default one that echoes the prompt)
+ */
+export function createFakeAI(
+  answer: (prompt: string) => string = (prompt) => `Answer to: ${prompt}`
+): FakeAI {
+  const ai: FakeAI = {
+    embeddingCalls: 0,
+    completionCalls: 0,
+    async run(model, input) {
+      if (input.text !== undefined) {
+        ai.embeddingCalls++;
+        const texts: string[] = Array.isArray(input.text)
+          ? input.text
+          : [input.text];
+        return {
+          shape: [texts.length, DIMENSIONS],
+          data: texts.map(fakeEmbedding),
+        };
+      }
+
+      ai.completionCalls++;
+      const prompt = input.messages[input.messages.length - 1].content;
+      const response = answer(prompt);
+      if (input.stream) {
+        return new Response(
+          `data: ${JSON.stringify({ response })}\n\ndata: [DONE]\n\n`
+        ).body;
+      }
+      return {
+        response,
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      };
+    },
+  };
+  return ai;
+}
+
+/**
+ * A fresh environment on an empty in-memory store. Redis is not configured,
+ * so counters and locks are kept in the test KV namespace unless a test
+ * overrides it.
+ */
+export function testEnv(overrides: Partial<Env> = {}): Env & { AI: FakeAI } {
+  clearInMemoryStore();
+  return {
+    AI: createFakeAI(),
+    CACHE_STATS: workerEnv.CACHE_STATS,
+    VECTOR_STORE: "memory",
+    ALLOW_ANONYMOUS: "true",
+    COALESCE_TIMEOUT_SECONDS: "0",
+    ...overrides,
+  } as Env & { AI: FakeAI };
+}
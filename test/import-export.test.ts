@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { handleAdminRequest } from "../src/admin";
+import { runImport } from "../src/import-export";
+import { PromptCache, buildCacheScope, hashContext } from "../src/cache";
+import { createMetaStore } from "../src/meta-store";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const ADMIN_TOKEN = "admin-secret";
+
+function adminRequest(
+  env: ReturnType<typeof testEnv>,
+  path: string,
+  init: RequestInit = {}
+) {
+  const url = new URL(`https://cache.test${path}`);
+  const request = new Request(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, ...init.headers },
+  });
+  return handleAdminRequest(request, env, url, {});
+}
+
+function importLines(env: ReturnType<typeof testEnv>, lines: unknown[]) {
+  return adminRequest(env, "/admin/import", {
+    method: "POST",
+    body: lines
+      .map((line) => (typeof line === "string" ? line : JSON.stringify(line)))
+      .join("\n"),
+  });
+}
+
+function faq(count: number, prefix = "question") {
+  return Array.from({ length: count }, (_, i) => ({
+    prompt: `${prefix} ${i}`,
+    response: `Answer ${i}`,
+  }));
+}
+
+// Imports share the test KV namespace, so every test finishes its own
+async function finish(env: ReturnType<typeof testEnv>) {
+  let state = await runImport(env);
+  while (state && state.finishedAt === undefined) {
+    state = await runImport(env);
+  }
+  return state;
+}
+
+describe("import and export", () => {
+  it("imports a small body in one request, embedding each batch once", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+
+    const response = await importLines(env, [
+      ...faq(5),
+      "{not json",
+      { prompt: "no response" },
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      imported: 5,
+      failed: 2,
+      errors: [
+        { line: 6, error: "Invalid JSON" },
+        { line: 7, error: "Missing required field: response" },
+      ],
+    });
+    expect(env.AI.embeddingCalls).toBe(1);
+    expect((await new PromptCache(env).getStats()).size).toBe(5);
+  });
+
+  it("writes a large import over several runs", async () => {
+    const env = testEnv({
+      ADMIN_TOKEN,
+      CACHE_ENCRYPTION_KEYS: JSON.stringify({ k1: btoa("k".repeat(32)) }),
+    });
+
+    const response = await importLines(env, faq(250));
+    expect(response.status).toBe(202);
+    const first: { id: string; imported: number } = await response.json();
+    expect(first.imported).toBe(100);
+
+    // Staged lines are encrypted like entries
+    const staged = await env.CACHE_STATS.get(`import:chunk:${first.id}:0`);
+    expect(staged).toMatch(/^enc:k1:/);
+
+    const progress = await adminRequest(env, "/admin/import");
+    expect(await progress.json()).toMatchObject({ imported: 100 });
+
+    expect(await finish(env)).toMatchObject({ imported: 250, failed: 0 });
+    expect(env.AI.embeddingCalls).toBe(13);
+    expect((await new PromptCache(env).getStats()).size).toBe(250);
+  });
+
+  it("refuses a second import while one is running", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    expect((await importLines(env, faq(150, "first"))).status).toBe(202);
+
+    expect((await importLines(env, faq(1, "second"))).status).toBe(409);
+    await finish(env);
+  });
+
+  it("refuses an import while another is being staged", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    const store = createMetaStore(env);
+    await store.acquire("lock:import-start", "other", 60);
+    try {
+      expect((await importLines(env, faq(1))).status).toBe(409);
+    } finally {
+      await store.release("lock:import-start", "other");
+    }
+  });
+
+  it("waits while another job rewrites entries", async () => {
+    const env = testEnv({ ADMIN_TOKEN });
+    const store = createMetaStore(env);
+    await store.acquire("lock:entry-jobs", "other", 60);
+    try {
+      const response = await importLines(env, faq(5, "waiting"));
+      expect(response.status).toBe(202);
+      expect(await response.json()).toMatchObject({ imported: 0 });
+    } finally {
+      await store.release("lock:entry-jobs", "other");
+    }
+    expect(await finish(env)).toMatchObject({ imported: 5 });
+  });
+
+  it("imports an export as it is", async () => {
+    const source = testEnv({ ADMIN_TOKEN });
+    const cache = new PromptCache(source);
+    const scope = buildCacheScope(MODEL, 256, 0, await hashContext([]));
+    const id = await cache.cacheResponse("alpha", "Answer alpha", MODEL, scope);
+    await cache.cacheResponse("bravo", "Answer bravo", MODEL, scope);
+    await cache.setPinned(id, true);
+
+    const exported = new TextDecoder().decode(
+      await (await adminRequest(source, "/admin/export")).arrayBuffer()
+    );
+    expect(exported.trim().split("\n")).toHaveLength(2);
+
+    const target = testEnv({ ADMIN_TOKEN });
+    const response = await adminRequest(target, "/admin/import", {
+      method: "POST",
+      body: exported,
+    });
+    expect(await response.json()).toMatchObject({ imported: 2, failed: 0 });
+
+    // Embeddings come with the export
+    expect(target.AI.embeddingCalls).toBe(0);
+    const entry = await new PromptCache(target).getEntry(id);
+    expect(entry).toMatchObject({ response: "Answer alpha", pinned: true });
+  });
+});
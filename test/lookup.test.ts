@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { CompletionParams, completeWithCache } from "../src/chat";
+import { cacheDirectives } from "../src/cache-control";
+import {
+  PromptCache,
+  buildCacheScope,
+  exactMatchId,
+  hashContext,
+} from "../src/cache";
+import { fakeEmbedding, testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+function params(prompt: string, overrides: Partial<CompletionParams> = {}) {
+  return {
+    messages: [{ role: "user" as const, content: prompt }],
+    model: MODEL,
+    maxTokens: 256,
+    temperature: 0,
+    ...overrides,
+  };
+}
+
+async function complete(
+  env: ReturnType<typeof testEnv>,
+  completion: CompletionParams
+) {
+  const ctx = createExecutionContext();
+  const result = await completeWithCache(completion, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return result;
+}
+
+describe("cache lookup", () => {
+  it("serves an exact repeat without an embedding call", async () => {
+    const env = testEnv();
+    const miss = await complete(env, params("What is the capital of France?"));
+    expect(miss.cached).toBe(false);
+
+    const embeddingCalls = env.AI.embeddingCalls;
+    const hit = await complete(
+      env,
+      params("  what is the CAPITAL of france? ")
+    );
+    expect(hit).toMatchObject({ cached: true, match: "exact", similarity: 1 });
+    expect(hit.text).toBe(miss.text);
+    expect(env.AI.embeddingCalls).toBe(embeddingCalls);
+    expect(env.AI.completionCalls).toBe(1);
+  });
+
+  it("serves a similar prompt through the semantic search", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.8" });
+    await complete(env, params("What is the capital city of France?"));
+
+    const hit = await complete(
+      env,
+      params("Tell me what the capital city of France is")
+    );
+    expect(hit).toMatchObject({ cached: true, match: "semantic" });
+    expect(hit.similarity).toBeGreaterThanOrEqual(0.8);
+    expect(env.AI.completionCalls).toBe(1);
+  });
+
+  it("misses below the threshold", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.95" });
+    await complete(env, params("What is the capital city of France?"));
+
+    const miss = await complete(env, params("What is the capital of Peru?"));
+    expect(miss.cached).toBe(false);
+    expect(env.AI.completionCalls).toBe(2);
+  });
+
+  it("keeps partitions apart", async () => {
+    const env = testEnv();
+    await complete(env, params("What is the capital of France?"));
+
+    const otherNamespace = await complete(
+      env,
+      params("What is the capital of France?", { namespace: "support" })
+    );
+    const otherModel = await complete(
+      env,
+      params("What is the capital of France?", {
+        model: "@cf/meta/llama-2-7b-chat-int8",
+      })
+    );
+    const otherContext = await complete(env, {
+      ...params("What is the capital of France?"),
+      messages: [
+        { role: "system", content: "Answer in French." },
+        { role: "user", content: "What is the capital of France?" },
+      ],
+    });
+
+    expect(otherNamespace.cached).toBe(false);
+    expect(otherModel.cached).toBe(false);
+    expect(otherContext.cached).toBe(false);
+  });
+});
+
+describe("cache directives", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function entryId(prompt: string) {
+    const scope = buildCacheScope(MODEL, 256, 0, await hashContext([]));
+    return exactMatchId(prompt, MODEL, scope);
+  }
+
+  it("keeps the pin and negatives of a refreshed entry", async () => {
+    const env = testEnv();
+    const cache = new PromptCache(env);
+    const prompt = "What is the capital of France?";
+    await complete(env, params(prompt));
+    const id = await entryId(prompt);
+    await cache.setPinned(id, true);
+    const negative = "What is the capital of Spain?";
+    await cache.recordFalseHit(id, {
+      prompt: negative,
+      embedding: fakeEmbedding(negative),
+    });
+
+    const refreshed = await complete(
+      env,
+      params(prompt, { directives: cacheDirectives(null, "refresh") })
+    );
+    expect(refreshed.cached).toBe(false);
+    expect(env.AI.completionCalls).toBe(2);
+
+    const entry = await cache.getEntry(id);
+    expect(entry).toMatchObject({ pinned: true, expiresAt: undefined });
+    expect(entry?.negatives?.map((n) => n.prompt)).toEqual([negative]);
+  });
+
+  it("keeps the pin of an entry rewritten after a max-age miss", async () => {
+    const env = testEnv();
+    const cache = new PromptCache(env);
+    const prompt = "What is the capital of Italy?";
+    const now = Date.now();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+    await complete(env, params(prompt));
+    const id = await entryId(prompt);
+    await cache.setPinned(id, true);
+
+    vi.setSystemTime(now + 2000);
+    const miss = await complete(
+      env,
+      params(prompt, { directives: cacheDirectives("max-age=1") })
+    );
+
+    expect(miss.cached).toBe(false);
+    expect(env.AI.completionCalls).toBe(2);
+    expect(await cache.getEntry(id)).toMatchObject({ pinned: true });
+  });
+
+  it("leaves a similar prompt's entry in place on a refresh", async () => {
+    const env = testEnv({ SIMILARITY_THRESHOLD: "0.8" });
+    const cache = new PromptCache(env);
+    const original = "What is the capital city of France?";
+    await complete(env, params(original));
+
+    const similar = "Tell me what the capital city of France is";
+    await complete(
+      env,
+      params(similar, { directives: cacheDirectives(null, "refresh") })
+    );
+
+    expect(await cache.getEntry(await entryId(original))).not.toBeNull();
+    expect(await cache.getEntry(await entryId(similar))).not.toBeNull();
+    expect((await cache.getStats()).size).toBe(2);
+  });
+
+  it("keeps the pin of an entry overwritten by a write-only request", async () => {
+    const env = testEnv();
+    const cache = new PromptCache(env);
+    const prompt = "What is the capital of Peru?";
+    await complete(env, params(prompt));
+    const id = await entryId(prompt);
+    await cache.setPinned(id, true);
+
+    await complete(
+      env,
+      params(prompt, { directives: cacheDirectives(null, "write-only") })
+    );
+
+    expect(env.AI.completionCalls).toBe(2);
+    expect(await cache.getEntry(id)).toMatchObject({ pinned: true });
+  });
+});
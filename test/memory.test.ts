@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryVectorStore } from "../src/memory";
+import { CachedEntry, CacheScope } from "../src/types";
+import { DEFAULT_EMBEDDING_MODEL } from "../src/embeddings";
+
+const scope: CacheScope = {
+  model: "m",
+  namespace: "default",
+  maxTokensBucket: 256,
+  temperatureBucket: 0.75,
+  contextHash: "ctx",
+};
+
+function entry(embedding: number[], overrides: Partial<CachedEntry> = {}) {
+  return {
+    prompt: "p",
+    embedding,
+    response: "r",
+    timestamp: Date.now(),
+    model: "m",
+    namespace: "default",
+    maxTokensBucket: 256,
+    temperatureBucket: 0.75,
+    contextHash: "ctx",
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
+    hits: 0,
+    lastAccessed: Date.now(),
+    ...overrides,
+  } as CachedEntry;
+}
+
+describe("InMemoryVectorStore", () => {
+  it("stores, fetches and deletes entries", async () => {
+    const store = new InMemoryVectorStore(DEFAULT_EMBEDDING_MODEL, new Map());
+    await store.store("a", entry([1, 0]));
+
+    expect((await store.get("a"))?.response).toBe("r");
+    expect(await store.count()).toBe(1);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeNull();
+  });
+
+  it("hides expired entries", async () => {
+    const store = new InMemoryVectorStore(DEFAULT_EMBEDDING_MODEL, new Map());
+    await store.store("a", entry([1, 0], { expiresAt: Date.now() - 1 }));
+
+    expect(await store.get("a")).toBeNull();
+    expect(await store.search([1, 0], 0, scope, 5)).toEqual([]);
+  });
+
+  it("searches within the partition, nearest first", async () => {
+    const store = new InMemoryVectorStore(DEFAULT_EMBEDDING_MODEL, new Map());
+    await store.store("near", entry([1, 0.1]));
+    await store.store("far", entry([1, 1]));
+    await store.store("other", entry([1, 0], { namespace: "other" }));
+    await store.store(
+      "legacy-model",
+      entry([1, 0], { embeddingModel: "@cf/baai/bge-base-en-v1.5" })
+    );
+
+    const results = await store.search([1, 0], 0.5, scope, 5);
+    expect(results.map((r) => r.id)).toEqual(["near", "far"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("counts hits and pages through entries", async () => {
+    const store = new InMemoryVectorStore(DEFAULT_EMBEDDING_MODEL, new Map());
+    for (const id of ["a", "b", "c"]) await store.store(id, entry([1, 0]));
+    await store.recordHit("b");
+
+    const first = await store.list(undefined, 2);
+    expect(first.entries.map((e) => e.id)).toEqual(["a", "b"]);
+    expect(first.entries[1].data.hits).toBe(1);
+
+    const second = await store.list(first.cursor, 2);
+    expect(second.entries.map((e) => e.id)).toEqual(["c"]);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  it("skips entries of another dimension or no embedding model", async () => {
+    const store = new InMemoryVectorStore(DEFAULT_EMBEDDING_MODEL, new Map());
+    await store.store("a", entry([1, 0]));
+    await store.store("wide", entry([1, 0, 0]));
+    await store.store("legacy", entry([1, 0], { embeddingModel: undefined }));
+
+    const results = await store.search([1, 0], 0.5, scope, 5);
+    expect(results.map((r) => r.id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMetaStore } from "../src/meta-store";
+import { testEnv } from "./helpers";
+
+describe("KV meta store", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares counters between stores without Redis", async () => {
+    const env = testEnv();
+    await createMetaStore(env).hincrby([
+      { key: "stats:test", fields: { hits: 2, cost: 0.5 } },
+    ]);
+    await createMetaStore(env).hincrby([
+      { key: "stats:test", fields: { hits: 1 } },
+    ]);
+
+    expect(await createMetaStore(env).hgetall("stats:test")).toEqual({
+      hits: 3,
+      cost: 0.5,
+    });
+  });
+
+  it("counts and expires keys", async () => {
+    const now = Date.now();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+    const store = createMetaStore(testEnv());
+
+    expect(await store.incr("ratelimit:test", 30)).toBe(1);
+    expect(await store.incr("ratelimit:test", 30)).toBe(2);
+    expect(await store.setnx("lock:test", 30)).toBe(true);
+    expect(await store.setnx("lock:test", 30)).toBe(false);
+
+    // Shorter than KV's minimum expiration, so enforced on read
+    vi.setSystemTime(now + 31_000);
+    expect(await store.exists("lock:test")).toBe(false);
+    expect(await store.incr("ratelimit:test", 30)).toBe(1);
+  });
+
+  it("releases a lock only for its holder", async () => {
+    const store = createMetaStore(testEnv());
+    expect(await store.acquire("lock:holder", "leader", 30)).toBe(true);
+    expect(await store.acquire("lock:holder", "other", 30)).toBe(false);
+
+    await store.release("lock:holder", "other");
+    expect(await store.exists("lock:holder")).toBe(true);
+    await store.release("lock:holder", "leader");
+    expect(await store.exists("lock:holder")).toBe(false);
+  });
+
+  it("deletes keys", async () => {
+    const store = createMetaStore(testEnv());
+    await store.setnx("lock:test", 30);
+    await store.del("lock:test");
+
+    expect(await store.exists("lock:test")).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../src/index";
+import { Metrics } from "../src/metrics";
+import { testEnv } from "./helpers";
+
+const ADMIN_TOKEN = "admin-secret";
+
+async function get(env: ReturnType<typeof testEnv>, path: string) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`https://cache.test${path}`, {
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response.json<Record<string, unknown>>();
+}
+
+describe("metrics", () => {
+  it("counts unlisted namespaces as other and reports them to admins only", async () => {
+    const env = testEnv({ ADMIN_TOKEN, METRICS_NAMESPACES: "acme/support" });
+    const metrics = new Metrics(env);
+    const labels = { model: "m", provider: "workers-ai" };
+    for (const namespace of [
+      "default",
+      "acme/support",
+      "acme/a-namespace-a-client-made-up",
+      "globex/default",
+    ]) {
+      // Flushed one at a time: KV counters lose concurrent increments
+      metrics.recordMiss({ ...labels, namespace });
+      await metrics.flush();
+    }
+
+    const admin = await get(env, "/admin/stats");
+    expect(admin.byNamespace).toEqual({
+      default: expect.objectContaining({ misses: 1 }),
+      "acme/support": expect.objectContaining({ misses: 1 }),
+      other: expect.objectContaining({ misses: 2 }),
+    });
+
+    const stats = await get(env, "/stats");
+    expect(stats.misses).toBe(4);
+    expect(stats).not.toHaveProperty("byNamespace");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { completeWithCache } from "../src/chat";
+import { BUILTIN_DETECTORS, Redactor } from "../src/redaction";
+import { createFakeAI, testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+async function complete(env: ReturnType<typeof testEnv>, prompt: string) {
+  const ctx = createExecutionContext();
+  const result = await completeWithCache(
+    {
+      messages: [{ role: "user", content: prompt }],
+      model: MODEL,
+      maxTokens: 256,
+      temperature: 0,
+    },
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return result;
+}
+
+describe("redaction", () => {
+  const redactor = new Redactor(BUILTIN_DETECTORS);
+
+  it("restores a response with another prompt's values", () => {
+    const prompt = redactor.redact("Email alice@example.com at 555-123-4567");
+    expect(prompt.text).toBe("Email [EMAIL_1] at [PHONE_1]");
+
+    const response = redactor.redact(
+      "Sent to alice@example.com, cc bob@example.com",
+      prompt.values
+    );
+    expect(response.text).toBe("Sent to [EMAIL_1], cc [EMAIL_2]");
+
+    const other = redactor.redact("Email carol@example.com at 555-765-4321");
+    expect(redactor.restore(response.text, other.values)).toBe(
+      "Sent to carol@example.com, cc [EMAIL_2]"
+    );
+  });
+
+  it("does not take bare 10-digit numbers for phones", () => {
+    expect(redactor.redact("Order 5551234567 shipped").detected).toEqual([]);
+    expect(redactor.redact("Call (555) 123-4567").text).toBe("Call [PHONE_1]");
+    expect(redactor.redact("Call +1 555.123.4567").text).toBe("Call [PHONE_1]");
+  });
+
+  it("keeps prompts that differ only in their values apart by default", async () => {
+    const env = testEnv();
+    await complete(env, "What is the balance of account 555-123-4567?");
+    const other = await complete(
+      env,
+      "What is the balance of account 555-765-4321?"
+    );
+
+    expect(other.cached).toBe(false);
+    expect(env.AI.completionCalls).toBe(2);
+  });
+
+  it("shares an entry between values when redacting", async () => {
+    const env = testEnv({ REDACTION_MODE: "redact" });
+    env.AI = createFakeAI(
+      (prompt) => `Reset link sent to ${prompt.match(/\S+@\S+/)![0]}`
+    );
+    await complete(env, "Reset the password for alice@example.com");
+    const hit = await complete(env, "Reset the password for bob@example.com");
+
+    expect(hit).toMatchObject({ cached: true, match: "exact" });
+    expect(hit.text).toBe("Reset link sent to bob@example.com");
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RedisVectorStore } from "../src/redis";
+import { CachedEntry } from "../src/types";
+import { DEFAULT_EMBEDDING_MODEL } from "../src/embeddings";
+import { FakeRedis, REDIS_URL } from "./fake-redis";
+
+const scope = {
+  model: "m",
+  namespace: "default",
+  maxTokensBucket: 256,
+  temperatureBucket: 0,
+  contextHash: "ctx",
+};
+
+const entry: CachedEntry = {
+  prompt: "p",
+  embedding: [0.5, -0.25, 1],
+  response: "r",
+  timestamp: Date.now(),
+  ...scope,
+  embeddingModel: DEFAULT_EMBEDDING_MODEL,
+  hits: 0,
+  lastAccessed: Date.now(),
+};
+
+describe("RedisVectorStore", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers with a KNN query whose vector has bytes of 0x80 and above", async () => {
+    const redis = new FakeRedis();
+    const store = new RedisVectorStore(REDIS_URL, "token");
+    await store.store("a", entry);
+    await store.store("b", { ...entry, embedding: [-0.5, 0.25, 1] });
+
+    // -0.25 is 0xBE800000 as FLOAT32
+    const results = await store.search(entry.embedding, 0.9, scope, 1);
+    expect(results.map((r) => r.id)).toEqual(["a"]);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(redis.commands.map(([name]) => name)).not.toContain("SCAN");
+  });
+
+  it("skips entries with no embedding model", async () => {
+    new FakeRedis();
+    const store = new RedisVectorStore(REDIS_URL, "token");
+    await store.store("current", entry);
+    await store.store("legacy", { ...entry, embeddingModel: undefined });
+
+    const results = await store.search(entry.embedding, 0.9, scope, 5);
+    expect(results.map((r) => r.id)).toEqual(["current"]);
+  });
+
+  it("counts the entries of every dimension's index", async () => {
+    const redis = new FakeRedis();
+    redis.handlers["FT._LIST"] = () => [
+      "idx:cache:v3:3",
+      "idx:cache:v3:768",
+      "unrelated",
+    ];
+    redis.handlers["FT.SEARCH"] = ([index]) =>
+      index === "idx:cache:v3:3" ? [2] : [5];
+    const store = new RedisVectorStore(REDIS_URL, "token");
+
+    expect(await store.count()).toBe(7);
+    expect(
+      redis.commands.filter(([name]) => name === "FT.SEARCH").map((c) => c[1])
+    ).toEqual(["idx:cache:v3:3", "idx:cache:v3:768"]);
+  });
+
+  it("lists the eviction fields without the entries and deletes in one DEL", async () => {
+    const redis = new FakeRedis();
+    const store = new RedisVectorStore(REDIS_URL, "token");
+    await store.store("a", { ...entry, hits: 3, pinned: true });
+    await store.store("b", entry);
+
+    const page = await store.listUsage();
+    expect(page.cursor).toBeUndefined();
+    expect(page.entries).toEqual([
+      {
+        id: "a",
+        usage: {
+          timestamp: entry.timestamp,
+          hits: 3,
+          lastAccessed: entry.lastAccessed,
+          pinned: true,
+        },
+      },
+      {
+        id: "b",
+        usage: {
+          timestamp: entry.timestamp,
+          hits: 0,
+          lastAccessed: entry.lastAccessed,
+          pinned: undefined,
+        },
+      },
+    ]);
+    const paths = redis.commands
+      .filter(([name]) => name === "JSON.MGET")
+      .map((c) => c[c.length - 1]);
+    expect(paths).not.toContain("$");
+
+    await store.deleteMany(["a", "b"]);
+    expect(redis.commands[redis.commands.length - 1]).toEqual([
+      "DEL",
+      "cache:a",
+      "cache:b",
+    ]);
+    expect(await store.listUsage()).toEqual({ entries: [], cursor: undefined });
+  });
+
+  // Last, as the isolate stops sending KNN queries afterwards
+  it("scans page by page when the server rejects the KNN query vector", async () => {
+    const redis = new FakeRedis();
+    redis.handlers["FT.SEARCH"] = () => {
+      throw new Error(
+        "Error parsing vector similarity query: query vector blob size (20) does not match index's expected size (12)."
+      );
+    };
+    const store = new RedisVectorStore(REDIS_URL, "token");
+    await store.store("a", entry);
+    await store.store("legacy", { ...entry, embeddingModel: undefined });
+
+    const results = await store.search(entry.embedding, 0.9, scope, 5);
+    expect(results.map((r) => r.id)).toEqual(["a"]);
+    expect(results[0].score).toBeCloseTo(1);
+    const names = redis.commands.map(([name]) => name);
+    expect(names).toContain("JSON.MGET");
+    expect(names).not.toContain("KEYS");
+    expect(names).not.toContain("JSON.GET");
+
+    // The isolate no longer sends KNN queries
+    const searches = () =>
+      redis.commands.filter(([name]) => name === "FT.SEARCH").length;
+    const sent = searches();
+    await store.search(entry.embedding, 0.9, scope, 1);
+    expect(searches()).toBe(sent);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import OpenAI, { APIConnectionError } from "openai";
+import { ProviderError } from "../src/gateway";
+import { SDK_CLIENT_OPTIONS } from "../src/providers/common";
+import { callWithResilience, isRetryable } from "../src/resilience";
+import { createMetaStore } from "../src/meta-store";
+import { testEnv } from "./helpers";
+
+const MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+describe("provider resilience", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries only errors another attempt could fix", () => {
+    expect(isRetryable(new ProviderError("timed out", { status: 504 }))).toBe(
+      true
+    );
+    expect(isRetryable({ status: 429 })).toBe(true);
+    expect(isRetryable(new APIConnectionError({ message: "reset" }))).toBe(
+      true
+    );
+    expect(isRetryable({ status: 400 })).toBe(false);
+    expect(isRetryable(new TypeError("x is not a function"))).toBe(false);
+    expect(isRetryable(new Error("unexpected"))).toBe(false);
+  });
+
+  it("neither retries nor trips the breaker on an unexpected error", async () => {
+    const env = testEnv({ PROVIDER_MAX_RETRIES: "2" });
+    let attempts = 0;
+
+    await expect(
+      callWithResilience(MODEL, env, async () => {
+        attempts++;
+        throw new TypeError("x is not a function");
+      })
+    ).rejects.toThrow(ProviderError);
+
+    expect(attempts).toBe(1);
+    expect(
+      await createMetaStore(env).exists("circuit:workers-ai:failures")
+    ).toBe(false);
+  });
+
+  it("aborts an attempt that times out", async () => {
+    const env = testEnv({
+      PROVIDER_TIMEOUT_SECONDS: "0.05",
+      PROVIDER_MAX_RETRIES: "0",
+      CIRCUIT_BREAKER_THRESHOLD: "0",
+    });
+    let received: AbortSignal | undefined;
+
+    await expect(
+      callWithResilience(MODEL, env, (_, signal) => {
+        received = signal;
+        return new Promise(() => {});
+      })
+    ).rejects.toThrow(/timed out/);
+
+    expect(received?.aborted).toBe(true);
+  });
+
+  it("makes a single request per attempt through the SDK", async () => {
+    // The OpenAI SDK binds fetch when it loads, so hand it one directly
+    const fetch = vi.fn(async () =>
+      Response.json({ error: { message: "overloaded" } }, { status: 503 })
+    );
+    const client = new OpenAI({
+      apiKey: "test",
+      baseURL: "https://llm.test/v1",
+      fetch,
+      ...SDK_CLIENT_OPTIONS,
+    });
+
+    await expect(
+      client.chat.completions.create({
+        model: "local-model",
+        messages: [{ role: "user", content: "hi" }],
+      })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionContext,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import worker from "../src/index";
+import { testEnv } from "./helpers";
+
+async function post(path: string, body: object) {
+  const env = testEnv();
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`https://cache.test${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return { response, env };
+}
+
+describe("request validation", () => {
+  it("rejects malformed /chat fields with 400", async () => {
+    for (const body of [
+      { prompt: 42 },
+      { prompt: ["hello"] },
+      { prompt: "hello", system: { role: "system" } },
+      { prompt: "hello", temperature: "0.2" },
+      { prompt: "hello", temperature: 3 },
+      { prompt: "hello", max_tokens: "256" },
+      { prompt: "hello", max_tokens: 0 },
+      { prompt: "hello", max_tokens: 1.5 },
+    ]) {
+      const { response, env } = await post("/chat", body);
+      expect(response.status, JSON.stringify(body)).toBe(400);
+      expect(env.AI.completionCalls).toBe(0);
+    }
+  });
+
+  it("rejects malformed /v1/chat/completions fields with 400", async () => {
+    const messages = [{ role: "user", content: "hello" }];
+    for (const body of [
+      { messages: [{ role: "user", content: 42 }] },
+      { messages: [{ role: "user", content: [{ type: "text", text: 1 }] }] },
+      { messages, temperature: "hot" },
+      { messages, max_tokens: -1 },
+      { messages, max_completion_tokens: "many" },
+    ]) {
+      const { response, env } = await post("/v1/chat/completions", body);
+      expect(response.status, JSON.stringify(body)).toBe(400);
+      expect(env.AI.completionCalls).toBe(0);
+    }
+  });
+
+  it("accepts a well-formed request", async () => {
+    const { response } = await post("/chat", {
+      prompt: "hello",
+      temperature: 0,
+      max_tokens: 64,
+    });
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getWritePolicy, writeSkipReason } from "../src/write-policy";
+import { Env } from "../src/types";
+
+const candidate = {
+  prompt: "What is the capital of France?",
+  text: "Paris.",
+  temperature: 0.2,
+  finishReason: "stop" as const,
+};
+
+function policy(overrides: Partial<Env> = {}) {
+  return getWritePolicy(overrides as Env);
+}
+
+describe("write policy", () => {
+  it("accepts a complete response", () => {
+    expect(writeSkipReason(policy(), candidate)).toBeNull();
+  });
+
+  it("rejects malformed, empty and truncated responses", () => {
+    expect(writeSkipReason(policy(), { ...candidate, malformed: true })).toBe(
+      "malformed"
+    );
+    expect(writeSkipReason(policy(), { ...candidate, text: "  " })).toBe(
+      "empty"
+    );
+    expect(
+      writeSkipReason(policy(), { ...candidate, finishReason: "length" })
+    ).toBe("truncated");
+    expect(
+      writeSkipReason(policy({ CACHE_TRUNCATED_RESPONSES: "true" }), {
+        ...candidate,
+        finishReason: "length",
+      })
+    ).toBeNull();
+  });
+
+  it("applies the configured limits", () => {
+    expect(
+      writeSkipReason(policy({ CACHE_MAX_TEMPERATURE: "0.1" }), candidate)
+    ).toBe("temperature");
+    expect(
+      writeSkipReason(policy({ CACHE_MIN_PROMPT_LENGTH: "100" }), candidate)
+    ).toBe("prompt_length");
+    expect(
+      writeSkipReason(policy({ CACHE_MAX_PROMPT_LENGTH: "10" }), candidate)
+    ).toBe("prompt_length");
+  });
+
+  it("denies prompts and responses matching a pattern", () => {
+    const deny = policy({
+      CACHE_DENY_PATTERNS: '["\\\\btoday\\\\b", "paris"]',
+    });
+    expect(writeSkipReason(deny, candidate)).toBe("denied");
+    expect(
+      writeSkipReason(deny, { ...candidate, text: "Lyon is not it." })
+    ).toBeNull();
+  });
+
+  it("ignores invalid deny patterns", () => {
+    expect(
+      writeSkipReason(policy({ CACHE_DENY_PATTERNS: "not json" }), candidate)
+    ).toBeNull();
+  });
+});
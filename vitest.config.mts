@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import { cloudflareTest } from "@cloudflare/vitest-pool-workers";
+
+// Tests run inside workerd with local KV namespaces. Workers AI, Redis and
+// the providers are replaced per test, so nothing leaves the machine.
+export default defineConfig({
+  plugins: [
+    cloudflareTest({
+      miniflare: {
+        compatibilityDate: "2024-09-23",
+        compatibilityFlags: ["nodejs_compat"],
+        kvNamespaces: ["CACHE_STATS", "CACHE_ENTRIES"],
+      },
+    }),
+  ],
+});